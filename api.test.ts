@@ -0,0 +1,315 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { app } from "./index.ts";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function get(path: string) {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+describe("GET /api/holidays", () => {
+  it("lists holidays filtered by category", async () => {
+    const { status, body } = await get(
+      "/api/holidays?year=5785&calendar=hebrew&category=major,fast"
+    );
+
+    expect(status).toBe(200);
+    expect(body.range).toEqual({ start: "2024-10-03", end: "2025-09-22" });
+    expect(body.categories).toEqual(["major", "fast"]);
+    expect(body.holidays).toContainEqual(
+      expect.objectContaining({ name: "Yom Kippur" })
+    );
+  });
+
+  it("rejects unknown categories with the schema issues", async () => {
+    const { status, body } = await get("/api/holidays?year=2024&category=big");
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Invalid query");
+    expect(body.issues[0].path).toEqual(["categories", 0]);
+  });
+
+  it("rejects a non-numeric year", async () => {
+    const { status, body } = await get("/api/holidays?year=soon");
+
+    expect(status).toBe(400);
+    expect(body.issues[0].path).toEqual(["year"]);
+  });
+
+  it("passes on the calendar functions' own errors", async () => {
+    const { status, body } = await get("/api/holidays?year=5785");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("Hebrew year");
+  });
+});
+
+describe("GET /api/holidays/:name", () => {
+  it("finds a holiday with times for the requested city", async () => {
+    const { status, body } = await get(
+      "/api/holidays/Yom%20Kippur?year=2024&city=Jerusalem"
+    );
+
+    expect(status).toBe(200);
+    expect(body.location.name).toBe("Jerusalem");
+    expect(body.il).toBe(true);
+    expect(body.holidays).toContainEqual(
+      expect.objectContaining({ gregorianDate: "Saturday, October 12, 2024" })
+    );
+  });
+
+  it("returns 404 when no holiday matches", async () => {
+    const { status, body } = await get("/api/holidays/Nothing?year=2024");
+
+    expect(status).toBe(404);
+    expect(body.found).toBe(false);
+  });
+
+  it("rejects an unknown city", async () => {
+    const { status, body } = await get(
+      "/api/holidays/Purim?year=2024&city=Londn"
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("Londn");
+  });
+
+  it("rejects a latitude without its longitude", async () => {
+    const { status, body } = await get(
+      "/api/holidays/Purim?year=2024&latitude=31.77&timezone=Asia/Jerusalem"
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Invalid location");
+    expect(body.issues[0].message).toBe(
+      "Give latitude and longitude together, with a timezone."
+    );
+  });
+});
+
+describe("GET /api/convert", () => {
+  it("converts a Hebrew date", async () => {
+    const { status, body } = await get(
+      "/api/convert?date=15%20Nisan%205785&from=hebrew"
+    );
+
+    expect(status).toBe(200);
+    expect(body.gregorianDate.iso).toBe("2025-04-13");
+  });
+
+  it("rejects a missing date", async () => {
+    const { status, body } = await get("/api/convert?from=gregorian");
+
+    expect(status).toBe(400);
+    expect(body.issues[0].path).toEqual(["inputDate"]);
+  });
+
+  it("rejects dates it cannot read", async () => {
+    const { status, body } = await get("/api/convert?date=someday");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("someday");
+  });
+});
+
+describe("GET /api/today", () => {
+  it("returns today's Gregorian and Hebrew date", async () => {
+    const { status, body } = await get("/api/today");
+
+    expect(status).toBe(200);
+    expect(body.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(body.gregorianDate.iso).toBe(body.date);
+    expect(body.hebrewDate.hebrewYear).toBeGreaterThan(5780);
+  });
+
+  it("uses the timezone for the local time and a nearby city", async () => {
+    const { status, body } = await get("/api/today?timezone=Europe/Paris");
+
+    expect(status).toBe(200);
+    expect(body.timezone).toBe("Europe/Paris");
+    expect(body.location.name).toBe("Paris");
+    expect(typeof body.isShabbat).toBe("boolean");
+  });
+});
+
+describe("GET /api/resolve", () => {
+  it("resolves a phrase to a date", async () => {
+    const { status, body } = await get(
+      "/api/resolve?phrase=the%20day%20after%20Yom%20Kippur%205786&city=Jerusalem"
+    );
+
+    expect(status).toBe(200);
+    expect(body.date.iso).toBe("2025-10-03");
+    expect(body.timezone).toBe("Asia/Jerusalem");
+  });
+
+  it("rejects phrases it cannot resolve", async () => {
+    const { status, body } = await get("/api/resolve?phrase=someday");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("someday");
+  });
+});
+
+describe("GET /api/omer", () => {
+  it("returns the evening's Omer count", async () => {
+    const { status, body } = await get("/api/omer?date=2025-05-15&city=London");
+
+    expect(status).toBe(200);
+    expect(body.location.name).toBe("London");
+    expect(body.tonight.day).toBe(33);
+  });
+
+  it("rejects invalid dates", async () => {
+    const { status, body } = await get("/api/omer?date=15/05/2025");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("YYYY-MM-DD");
+  });
+});
+
+describe("GET /api/roshchodesh", () => {
+  it("returns the molad and Rosh Chodesh for a month", async () => {
+    const { status, body } = await get(
+      "/api/roshchodesh?month=Cheshvan%205786&city=London"
+    );
+
+    expect(status).toBe(200);
+    expect(body.months[0].roshChodesh).toMatchObject([
+      { iso: "2025-10-22" },
+      { iso: "2025-10-23" },
+    ]);
+    expect(body.months[0].molad.time).toMatch(/\+01:00$/);
+  });
+
+  it("rejects unknown months", async () => {
+    const { status, body } = await get("/api/roshchodesh?month=Smarch");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("No Hebrew month");
+  });
+});
+
+describe("GET /api/learning", () => {
+  it("returns the requested schedules for a date", async () => {
+    const { status, body } = await get(
+      "/api/learning?date=2025-10-19&schedule=dafYomi,rambam3&language=he"
+    );
+
+    expect(status).toBe(200);
+    expect(body.days[0].learning).toMatchObject([
+      { schedule: "dafYomi" },
+      { schedule: "rambam3" },
+    ]);
+    expect(body.days[0].learning[0].reading).toBe("זבחים דף ל״ה");
+  });
+
+  it("rejects unknown schedules", async () => {
+    const { status, body } = await get("/api/learning?schedule=tosafos");
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Invalid query");
+  });
+});
+
+describe("GET /api/anniversaries", () => {
+  it("lists upcoming yahrzeits", async () => {
+    const { status, body } = await get(
+      "/api/anniversaries?date=2000-03-10&type=yahrzeit&afterSunset=true&years=2"
+    );
+
+    expect(status).toBe(200);
+    expect(body.original.hebrewDate).toBe("4 Adar II 5760");
+    expect(body.anniversaries).toHaveLength(2);
+  });
+
+  it("rejects an unknown type", async () => {
+    const { status, body } = await get(
+      "/api/anniversaries?date=2000-03-10&type=wedding"
+    );
+
+    expect(status).toBe(400);
+    expect(body.issues[0].path).toEqual(["type"]);
+  });
+});
+
+describe("GET /api/parsha", () => {
+  it("returns the readings for the Shabbat after a date", async () => {
+    const { status, body } = await get(
+      "/api/parsha?date=2024-10-01&city=Jerusalem"
+    );
+
+    expect(status).toBe(200);
+    expect(body.il).toBe(true);
+    expect(body.readings[0].parsha).toEqual(["Ha'azinu"]);
+    expect(body.readings[0].specialShabbat).toEqual(["Shabbat Shuva"]);
+  });
+
+  it("rejects an incomplete range", async () => {
+    const { status, body } = await get("/api/parsha?start=2025-01-01");
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("start and end");
+  });
+});
+
+describe("GET /api/shabbat", () => {
+  it("returns Shabbat times with the requested havdalah", async () => {
+    const { status, body } = await get(
+      "/api/shabbat?date=2025-10-16&city=London&havdalahMins=72"
+    );
+
+    expect(status).toBe(200);
+    expect(body.location.name).toBe("London");
+    expect(body.havdalah.minutes).toBe(72);
+    expect(body.shabbatot[0].date).toBe("2025-10-18");
+  });
+
+  it("rejects havdalah in both minutes and degrees", async () => {
+    const { status, body } = await get(
+      "/api/shabbat?havdalahMins=50&havdalahDegrees=8.5"
+    );
+
+    expect(status).toBe(400);
+    expect(body.error).toContain("not both");
+  });
+});
+
+describe("GET /api/calendar.ics", () => {
+  it("serves an iCalendar feed", async () => {
+    const response = await fetch(
+      `${baseUrl}/api/calendar.ics?year=2024&category=major&city=London`
+    );
+    const ics = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/calendar");
+    expect(response.headers.get("content-disposition")).toContain(
+      "jewish-calendar-2024-01-01-2024-12-31.ics"
+    );
+    expect(ics).toContain("X-WR-TIMEZONE:Europe/London");
+    expect(ics).toContain("SUMMARY:Yom Kippur");
+  });
+
+  it("rejects invalid options", async () => {
+    const { status, body } = await get("/api/calendar.ics?candles=maybe");
+
+    expect(status).toBe(400);
+    expect(body.issues[0].path).toEqual(["candles"]);
+  });
+});
@@ -0,0 +1,450 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { type ToolContext, createAiTools } from "./tools.ts";
+import { buildIcsFeed } from "./ics.ts";
+import { locationSchema, timezoneSchema } from "./location.ts";
+import { languageSchema } from "./language.ts";
+
+// Body of every 400 response from these routes
+export interface ApiError {
+  error: string;
+  issues?: z.core.$ZodIssue[];
+}
+
+// Deterministic REST access to the calendar tools, without a model in the loop.
+// Query strings are coerced to the tools' own input schemas and validated there
+export const apiRouter = Router();
+
+type Query = Request["query"];
+
+function first(value: Query[string]): string | undefined {
+  return Array.isArray(value) ? String(value[0]) : (value as string);
+}
+
+// "2024" -> 2024. Anything non-numeric becomes NaN, which the schemas reject
+function number(value: Query[string]): number | undefined {
+  const text = first(value);
+  return text === undefined ? undefined : Number(text);
+}
+
+// "true"/"false" -> boolean. Other values are passed on for the schema to reject
+function boolean(value: Query[string]): boolean | string | undefined {
+  const text = first(value);
+  return text === "true" ? true : text === "false" ? false : text;
+}
+
+// Accepts both ?category=major&category=fast and ?category=major,fast
+function list(value: Query[string]): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function invalid(res: Response, error: string, issues?: z.core.$ZodIssue[]) {
+  const body: ApiError = issues ? { error, issues } : { error };
+  return res.status(400).json(body);
+}
+
+// ?city=London, or ?latitude=&longitude=&timezone=&elevation=&name=
+function locationQuery(query: Query) {
+  const location = {
+    city: first(query.city),
+    latitude: number(query.latitude),
+    longitude: number(query.longitude),
+    timezone: first(query.timezone),
+    elevation: number(query.elevation),
+    name: first(query.name),
+  };
+  const given = Object.entries(location).filter(
+    ([, value]) => value !== undefined
+  );
+  return given.length ? Object.fromEntries(given) : undefined;
+}
+
+// The shared location, ?timezone= and ?language= parameters, as the tools'
+// request context. A timezone without coordinates is the user's own clock
+function contextFor(req: Request, res: Response): ToolContext | undefined {
+  const location = locationSchema
+    .optional()
+    .safeParse(locationQuery(req.query));
+  if (!location.success) {
+    invalid(res, "Invalid location", location.error.issues);
+    return undefined;
+  }
+  const language = languageSchema
+    .optional()
+    .safeParse(first(req.query.language));
+  if (!language.success) {
+    invalid(res, "Invalid language", language.error.issues);
+    return undefined;
+  }
+  const timezone = timezoneSchema
+    .optional()
+    .safeParse(first(req.query.timezone));
+  if (!timezone.success) {
+    invalid(res, "Invalid timezone", timezone.error.issues);
+    return undefined;
+  }
+  return {
+    location: location.data,
+    timezone: timezone.data,
+    language: language.data,
+  };
+}
+
+function period(query: Query) {
+  return {
+    year: number(query.year),
+    calendar: first(query.calendar),
+    start: first(query.start),
+    end: first(query.end),
+    il: boolean(query.il),
+  };
+}
+
+// GET /api/holidays?year=2024&calendar=gregorian&category=major,fast
+apiRouter.get("/holidays", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.listJewishHolidays.inputSchema.safeParse({
+      ...period(req.query),
+      categories: list(req.query.category),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.listJewishHolidays.execute(input.data);
+    if ("error" in result && result.error) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("List holidays endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/holidays/Yom%20Kippur?year=2024
+apiRouter.get("/holidays/:name", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.findJewishHoliday.inputSchema.safeParse({
+      ...period(req.query),
+      holidayName: req.params.name,
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.findJewishHoliday.execute(input.data);
+    if (!result.found) {
+      if ("error" in result && result.error) {
+        return invalid(res, result.error);
+      }
+      return res.status(404).json(result);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Find holiday endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/convert?date=2024-10-12&from=gregorian
+apiRouter.get("/convert", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.convertDate.inputSchema.safeParse({
+      inputDate: first(req.query.date),
+      fromCalendar: first(req.query.from) ?? "gregorian",
+      il: boolean(req.query.il),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.convertDate.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error ?? "Invalid date");
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Convert endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/today?timezone=America/Los_Angeles: the local date and time, the
+// Hebrew date and whether it is Shabbat or Yom Tov
+apiRouter.get("/today", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const result = await createAiTools(context).todaysDate.execute({});
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Today endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/resolve?phrase=two%20weeks%20before%20Pesach
+apiRouter.get("/resolve", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.resolveDate.inputSchema.safeParse({
+      phrase: first(req.query.phrase),
+      il: boolean(req.query.il),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.resolveDate.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Resolve date endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/parsha?date=2025-03-01, or ?start=2025-03-01&end=2025-04-30
+apiRouter.get("/parsha", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getParsha.inputSchema.safeParse({
+      date: first(req.query.date),
+      start: first(req.query.start),
+      end: first(req.query.end),
+      il: boolean(req.query.il),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getParsha.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Parsha endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/shabbat?city=London&havdalahMins=72, or with date, or start and end
+apiRouter.get("/shabbat", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getShabbatTimes.inputSchema.safeParse({
+      date: first(req.query.date),
+      start: first(req.query.start),
+      end: first(req.query.end),
+      havdalahMins: number(req.query.havdalahMins),
+      havdalahDegrees: number(req.query.havdalahDegrees),
+      il: boolean(req.query.il),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getShabbatTimes.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Shabbat times endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/omer?city=Jerusalem, or with date for that evening's count
+apiRouter.get("/omer", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getOmer.inputSchema.safeParse({
+      date: first(req.query.date),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getOmer.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Omer endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/roshchodesh?month=Iyar, or with date, or start and end
+apiRouter.get("/roshchodesh", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getRoshChodesh.inputSchema.safeParse({
+      month: first(req.query.month),
+      date: first(req.query.date),
+      start: first(req.query.start),
+      end: first(req.query.end),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getRoshChodesh.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Rosh Chodesh endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/learning?date=2025-10-19&schedule=dafYomi,mishnaYomi, or with
+// start and end
+apiRouter.get("/learning", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getDailyLearning.inputSchema.safeParse({
+      date: first(req.query.date),
+      start: first(req.query.start),
+      end: first(req.query.end),
+      schedules: list(req.query.schedule),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getDailyLearning.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Daily learning endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/anniversaries?date=1990-03-01&type=yahrzeit&afterSunset=true
+apiRouter.get("/anniversaries", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.getHebrewAnniversaries.inputSchema.safeParse({
+      date: first(req.query.date),
+      type: first(req.query.type),
+      afterSunset: boolean(req.query.afterSunset),
+      years: number(req.query.years),
+      il: boolean(req.query.il),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const result = await tools.getHebrewAnniversaries.execute(input.data);
+    if (!result.success) {
+      return invalid(res, result.error);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Anniversaries endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/calendar.ics?year=2024&category=major&city=London: an iCalendar
+// feed to download, or to subscribe to when no year or range is given
+apiRouter.get("/calendar.ics", async (req: Request, res: Response) => {
+  try {
+    const context = contextFor(req, res);
+    if (!context) {
+      return;
+    }
+    const tools = createAiTools(context);
+    const input = tools.calendarFeedLink.inputSchema.safeParse({
+      ...period(req.query),
+      categories: list(req.query.category),
+      candles: boolean(req.query.candles),
+    });
+    if (!input.success) {
+      return invalid(res, "Invalid query", input.error.issues);
+    }
+
+    const { year, ...options } = input.data;
+    const feed = buildIcsFeed(year, context.location, {
+      ...options,
+      language: context.language,
+    });
+    if (!feed.success) {
+      return invalid(res, feed.error ?? "Invalid feed");
+    }
+    res
+      .type("text/calendar; charset=utf-8")
+      .attachment(feed.filename)
+      .send(feed.ics);
+  } catch (error) {
+    console.error("Calendar feed endpoint error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
@@ -0,0 +1,77 @@
+import { randomUUID } from "node:crypto";
+import type { UIMessage } from "ai";
+import { createJsonStore } from "./json-store.ts";
+import type { ConversationSummary } from "./schemas.ts";
+
+export interface Conversation extends Omit<
+  ConversationSummary,
+  "messageCount"
+> {
+  messages: UIMessage[];
+}
+
+// One JSON file per conversation, under CONVERSATIONS_DIR (./data/conversations by default)
+const store = createJsonStore<Conversation>(
+  "CONVERSATIONS_DIR",
+  "conversations"
+);
+
+export async function createConversation(
+  title?: string
+): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: randomUUID(),
+    title: title?.trim() || "New conversation",
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+  await store.save(conversation);
+  return conversation;
+}
+
+export async function getConversation(
+  id: string
+): Promise<Conversation | null> {
+  return store.get(id);
+}
+
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const conversations = await store.list();
+  return conversations
+    .map(({ messages, ...summary }) => ({
+      ...summary,
+      messageCount: messages.length,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveMessages(
+  id: string,
+  messages: UIMessage[]
+): Promise<Conversation | null> {
+  const conversation = await getConversation(id);
+  if (!conversation) {
+    return null;
+  }
+
+  // Name untitled conversations after the first thing the user asked
+  if (conversation.messages.length === 0) {
+    const firstText = messages
+      .find((message) => message.role === "user")
+      ?.parts.find((part) => part.type === "text");
+    if (firstText && conversation.title === "New conversation") {
+      conversation.title = firstText.text.slice(0, 60);
+    }
+  }
+
+  conversation.messages = messages;
+  conversation.updatedAt = new Date().toISOString();
+  await store.save(conversation);
+  return conversation;
+}
+
+export async function deleteConversation(id: string): Promise<boolean> {
+  return store.delete(id);
+}
@@ -1,9 +1,30 @@
-import type { UIDataTypes, UIMessagePart, UITools } from "ai";
-import React from "react";
+import { useChat } from "@ai-sdk/react";
+import {
+  DefaultChatTransport,
+  type UIDataTypes,
+  type UIMessage,
+  type UIMessagePart,
+  type UITools,
+  isToolOrDynamicToolUIPart,
+} from "ai";
+import React, { useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
+import type { ConversationSummary } from "../../schemas.ts";
+import { ToolCall } from "./tool-views.tsx";
+import { LANGUAGES, type Language, isRightToLeft } from "./languages.ts";
 
-export const Wrapper = (props: { children: React.ReactNode }) => {
-  return <div className="wrapper">{props.children}</div>;
+export const Wrapper = (props: {
+  children: React.ReactNode;
+  language?: Language;
+}) => {
+  return (
+    <div
+      className="wrapper"
+      dir={props.language && isRightToLeft(props.language) ? "rtl" : "ltr"}
+    >
+      {props.children}
+    </div>
+  );
 };
 
 export const Message = ({
@@ -14,18 +35,24 @@ export const Message = ({
   parts: UIMessagePart<UIDataTypes, UITools>[];
 }) => {
   const prefix = role === "user" ? "User: " : "AI: ";
+  const firstText = parts.findIndex((part) => part.type === "text");
 
-  const text = parts
-    .map((part) => {
-      if (part.type === "text") {
-        return part.text;
-      }
-      return "";
-    })
-    .join("");
+  // Render text and tool calls in the order the model produced them
   return (
     <div className="message">
-      <ReactMarkdown>{prefix + text}</ReactMarkdown>
+      {parts.map((part, index) => {
+        if (part.type === "text") {
+          return (
+            <ReactMarkdown key={index}>
+              {(index === firstText ? prefix : "") + part.text}
+            </ReactMarkdown>
+          );
+        }
+        if (isToolOrDynamicToolUIPart(part)) {
+          return <ToolCall key={part.toolCallId} part={part} />;
+        }
+        return null;
+      })}
     </div>
   );
 };
@@ -49,3 +76,231 @@ export const ChatInput = ({
     />
   </form>
 );
+
+export const LocationSetting = ({
+  city,
+  onChange,
+}: {
+  city: string;
+  onChange: (city: string) => void;
+}) => (
+  <label className="location-setting">
+    Location:
+    <input
+      value={city}
+      placeholder="New York"
+      onChange={(e) => onChange(e.currentTarget.value)}
+    />
+  </label>
+);
+
+export const LanguageSetting = ({
+  language,
+  onChange,
+}: {
+  language: Language;
+  onChange: (language: Language) => void;
+}) => (
+  <label className="language-setting">
+    Language:
+    <select
+      value={language}
+      onChange={(e) => onChange(e.currentTarget.value as Language)}
+    >
+      {LANGUAGES.map(({ code, label }) => (
+        <option key={code} value={code}>
+          {label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// Links to the server's iCalendar feed for the saved city and language
+export const CalendarSubscribe = ({
+  city,
+  language,
+}: {
+  city: string;
+  language: Language;
+}) => {
+  const params = new URLSearchParams({ language });
+  if (city.trim()) {
+    params.set("city", city.trim());
+  }
+  const path = `/api/calendar.ics?${params}`;
+
+  return (
+    <p className="calendar-subscribe">
+      Holiday calendar:{" "}
+      <a href={`webcal://${window.location.host}${path}`}>Subscribe</a>
+      {" · "}
+      <a href={path} download>
+        Download .ics
+      </a>
+    </p>
+  );
+};
+
+const REMINDER_KEY = "omerReminder";
+
+// Turns nightly Omer count notifications on and off. The server sends them at
+// tzeit for the saved city while this page is open
+export const OmerReminders = ({
+  city,
+  language,
+}: {
+  city: string;
+  language: Language;
+}) => {
+  const [reminderId, setReminderId] = useState(() =>
+    localStorage.getItem(REMINDER_KEY)
+  );
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!reminderId) {
+      return;
+    }
+    const events = new EventSource(`/reminders/${reminderId}/events`);
+    events.addEventListener("omer", (event) => {
+      const { title, body } = JSON.parse(event.data);
+      new Notification(title, { body });
+    });
+    return () => events.close();
+  }, [reminderId]);
+
+  const turnOn = async () => {
+    if ((await Notification.requestPermission()) !== "granted") {
+      setError("Notifications are blocked in this browser.");
+      return;
+    }
+    const response = await fetch("/reminders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ location: { city: city.trim() }, language }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      setError(result.error);
+      return;
+    }
+    localStorage.setItem(REMINDER_KEY, result.id);
+    setReminderId(result.id);
+    setError("");
+  };
+
+  const turnOff = async () => {
+    await fetch(`/reminders/${reminderId}`, { method: "DELETE" });
+    localStorage.removeItem(REMINDER_KEY);
+    setReminderId(null);
+  };
+
+  return (
+    <p className="calendar-subscribe">
+      Omer reminders:{" "}
+      {reminderId ? (
+        <button onClick={turnOff}>Turn off</button>
+      ) : (
+        <button onClick={turnOn} disabled={!city.trim()}>
+          {city.trim() ? `Turn on for ${city.trim()}` : "Set a location first"}
+        </button>
+      )}
+      {error && ` ${error}`}
+    </p>
+  );
+};
+
+export const ConversationList = ({
+  conversations,
+  activeId,
+  onNew,
+  onOpen,
+  onDelete,
+}: {
+  conversations: ConversationSummary[];
+  activeId?: string;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}) => (
+  <details className="conversations">
+    <summary>Conversations ({conversations.length})</summary>
+    <button type="button" onClick={onNew}>
+      New conversation
+    </button>
+    <ul>
+      {conversations.map((conversation) => (
+        <li
+          key={conversation.id}
+          className={conversation.id === activeId ? "active" : undefined}
+        >
+          <button type="button" onClick={() => onOpen(conversation.id)}>
+            {conversation.title}
+          </button>
+          <button
+            type="button"
+            aria-label="Delete conversation"
+            onClick={() => onDelete(conversation.id)}
+          >
+            ×
+          </button>
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+export const Chat = ({
+  conversationId,
+  initialMessages,
+  city,
+  language,
+  onFinish,
+}: {
+  conversationId: string;
+  initialMessages: UIMessage[];
+  city: string;
+  language: Language;
+  onFinish: () => void;
+}) => {
+  const [input, setInput] = useState("");
+  const { messages, sendMessage } = useChat({
+    id: conversationId,
+    messages: initialMessages,
+    transport: new DefaultChatTransport({
+      api: "/chat",
+      // The server keeps the history, so only send the new message
+      prepareSendMessagesRequest: ({ id, messages, body }) => ({
+        body: { ...body, conversationId: id, message: messages.at(-1) },
+      }),
+    }),
+    onFinish,
+  });
+
+  return (
+    <>
+      {messages.map((message) => (
+        <Message key={message.id} role={message.role} parts={message.parts} />
+      ))}
+      <ChatInput
+        input={input}
+        onChange={(e) => setInput(e.currentTarget.value)}
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendMessage(
+            { text: input },
+            {
+              body: {
+                language,
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                ...(city.trim() ? { location: { city: city.trim() } } : {}),
+              },
+            }
+          );
+          setInput("");
+        }}
+      />
+    </>
+  );
+};
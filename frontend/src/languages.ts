@@ -0,0 +1,15 @@
+// Mirrors LANGUAGES in the server's language.ts
+export const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "he", label: "עברית" },
+  { code: "yi", label: "אידיש" },
+  { code: "translit", label: "English (Ashkenazi)" },
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]["code"];
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.code === value);
+
+export const isRightToLeft = (language: Language) =>
+  language === "he" || language === "yi";
@@ -1,32 +1,111 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { createRoot } from "react-dom/client";
-import { useChat } from "@ai-sdk/react";
-import { DefaultChatTransport } from "ai";
-import { ChatInput, Message, Wrapper } from "./components.tsx";
+import type { UIMessage } from "ai";
+import {
+  CalendarSubscribe,
+  Chat,
+  ConversationList,
+  LanguageSetting,
+  LocationSetting,
+  OmerReminders,
+  Wrapper,
+} from "./components.tsx";
+import { type Language, isLanguage } from "./languages.ts";
+import type { ConversationSummary } from "../../schemas.ts";
 import "./styles.css";
 
+const LOCATION_KEY = "savedLocation";
+const LANGUAGE_KEY = "language";
+
 const App = () => {
-  const [input, setInput] = useState("");
-  const { messages, sendMessage } = useChat({
-    transport: new DefaultChatTransport({
-      api: "/chat",
-    }),
+  const [city, setCity] = useState(
+    () => localStorage.getItem(LOCATION_KEY) ?? ""
+  );
+  const [language, setLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    return isLanguage(saved) ? saved : "yi";
   });
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [active, setActive] = useState<{
+    id: string;
+    messages: UIMessage[];
+  } | null>(null);
+
+  const refreshConversations = useCallback(async () => {
+    const response = await fetch("/conversations");
+    const { conversations } = await response.json();
+    setConversations(conversations);
+    return conversations as ConversationSummary[];
+  }, []);
+
+  const startConversation = useCallback(async () => {
+    const response = await fetch("/conversations", { method: "POST" });
+    const conversation = await response.json();
+    setActive({ id: conversation.id, messages: [] });
+    await refreshConversations();
+  }, [refreshConversations]);
+
+  const openConversation = async (id: string) => {
+    const response = await fetch(`/conversations/${id}`);
+    const conversation = await response.json();
+    setActive({ id: conversation.id, messages: conversation.messages });
+  };
+
+  const removeConversation = async (id: string) => {
+    await fetch(`/conversations/${id}`, { method: "DELETE" });
+    if (active?.id === id) {
+      setActive(null);
+    }
+    await refreshConversations();
+  };
+
+  // Resume an empty conversation from a previous visit instead of piling up new ones
+  useEffect(() => {
+    refreshConversations().then((existing) => {
+      const latest = existing[0];
+      if (latest && latest.messageCount === 0) {
+        setActive({ id: latest.id, messages: [] });
+      } else {
+        startConversation();
+      }
+    });
+  }, [refreshConversations, startConversation]);
 
   return (
-    <Wrapper>
-      {messages.map((message) => (
-        <Message key={message.id} role={message.role} parts={message.parts} />
-      ))}
-      <ChatInput
-        input={input}
-        onChange={(e) => setInput(e.currentTarget.value)}
-        onSubmit={(e) => {
-          e.preventDefault();
-          sendMessage({ text: input });
-          setInput("");
+    <Wrapper language={language}>
+      <LanguageSetting
+        language={language}
+        onChange={(value) => {
+          setLanguage(value);
+          localStorage.setItem(LANGUAGE_KEY, value);
         }}
       />
+      <LocationSetting
+        city={city}
+        onChange={(value) => {
+          setCity(value);
+          localStorage.setItem(LOCATION_KEY, value);
+        }}
+      />
+      <CalendarSubscribe city={city} language={language} />
+      <OmerReminders city={city} language={language} />
+      <ConversationList
+        conversations={conversations}
+        activeId={active?.id}
+        onNew={startConversation}
+        onOpen={openConversation}
+        onDelete={removeConversation}
+      />
+      {active && (
+        <Chat
+          key={active.id}
+          conversationId={active.id}
+          initialMessages={active.messages}
+          city={city}
+          language={language}
+          onFinish={refreshConversations}
+        />
+      )}
     </Wrapper>
   );
 };
@@ -0,0 +1,470 @@
+import {
+  type DynamicToolUIPart,
+  type ToolUIPart,
+  getToolOrDynamicToolName,
+} from "ai";
+import { Fragment } from "react";
+
+import type {
+  CalendarFeedLinkResult,
+  ConvertDateResult,
+  DailyLearningResult,
+  FindJewishHolidayResult,
+  HebrewAnniversariesResult,
+  ListJewishHolidaysResult,
+  OmerResult,
+  ParshaResult,
+  ResolveDateResult,
+  RoshChodeshResult,
+  ShabbatTimesResult,
+} from "../../schemas.ts";
+
+// Any tool's failure: found or success is false, with an error or a message
+interface ToolError {
+  found?: false;
+  success?: false;
+  error?: string;
+  message?: string;
+  suggestions?: string[];
+}
+
+// The successful results; ToolResult handles the failures first
+type ConvertDateOutput = Extract<ConvertDateResult, { success: true }>;
+type FindHolidayOutput = Extract<FindJewishHolidayResult, { found: true }>;
+type ListHolidaysOutput = Exclude<ListJewishHolidaysResult, { error: string }>;
+type ResolveDateOutput = Extract<ResolveDateResult, { success: true }>;
+type ShabbatTimesOutput = Extract<ShabbatTimesResult, { success: true }>;
+type OmerOutput = Extract<OmerResult, { success: true }>;
+type RoshChodeshOutput = Extract<RoshChodeshResult, { success: true }>;
+type DailyLearningOutput = Extract<DailyLearningResult, { success: true }>;
+type ParshaOutput = Extract<ParshaResult, { success: true }>;
+type AnniversariesOutput = Extract<
+  HebrewAnniversariesResult,
+  { success: true }
+>;
+type CalendarFeedLinkOutput = Extract<
+  CalendarFeedLinkResult,
+  { success: true }
+>;
+
+type ToolStatus = "pending" | "running" | "done" | "error";
+
+const STATUS: Record<ToolUIPart["state"], ToolStatus> = {
+  "input-streaming": "pending",
+  "input-available": "running",
+  "output-available": "done",
+  "output-error": "error",
+};
+
+export const ToolCall = ({
+  part,
+}: {
+  part: ToolUIPart | DynamicToolUIPart;
+}) => {
+  const name = getToolOrDynamicToolName(part);
+  const status = STATUS[part.state];
+
+  return (
+    <details className={`tool-call tool-call-${status}`}>
+      <summary>
+        <span className="tool-name">{name}</span>
+        <span className="tool-status">{status}</span>
+      </summary>
+      {part.input !== undefined && (
+        <pre className="tool-input">{JSON.stringify(part.input, null, 2)}</pre>
+      )}
+      {part.state === "output-available" && (
+        <ToolResult name={name} output={part.output} />
+      )}
+      {part.state === "output-error" && (
+        <p className="tool-error">{part.errorText}</p>
+      )}
+    </details>
+  );
+};
+
+const ToolResult = ({ name, output }: { name: string; output: unknown }) => {
+  const error = output as ToolError;
+  if (error && (error.found === false || error.success === false)) {
+    return (
+      <p className="tool-error">
+        {error.error || error.message}
+        {error.suggestions?.length
+          ? ` Did you mean: ${error.suggestions.join(", ")}?`
+          : ""}
+      </p>
+    );
+  }
+
+  switch (name) {
+    case "convertDate":
+      return <DateConversionCard output={output as ConvertDateOutput} />;
+    case "resolveDate":
+      return <ResolvedDateCard output={output as ResolveDateOutput} />;
+    case "findJewishHoliday":
+      return <HolidayCard output={output as FindHolidayOutput} />;
+    case "listJewishHolidays":
+      return <HolidayListTable output={output as ListHolidaysOutput} />;
+    case "getShabbatTimes":
+      return <ShabbatTimesTable output={output as ShabbatTimesOutput} />;
+    case "getOmer":
+      return <OmerCard output={output as OmerOutput} />;
+    case "getRoshChodesh":
+      return <RoshChodeshTable output={output as RoshChodeshOutput} />;
+    case "getDailyLearning":
+      return <DailyLearningTable output={output as DailyLearningOutput} />;
+    case "getParsha":
+      return <ParshaCard output={output as ParshaOutput} />;
+    case "getHebrewAnniversaries":
+      return <AnniversaryTable output={output as AnniversariesOutput} />;
+    case "calendarFeedLink":
+      return <CalendarLink output={output as CalendarFeedLinkOutput} />;
+    default:
+      return (
+        <pre className="tool-output">{JSON.stringify(output, null, 2)}</pre>
+      );
+  }
+};
+
+const DateConversionCard = ({ output }: { output: ConvertDateOutput }) => (
+  <dl className="tool-result date-conversion">
+    <dt>Gregorian</dt>
+    <dd>{output.gregorianDate.formatted}</dd>
+    <dt>Hebrew</dt>
+    <dd>
+      {output.hebrewDate.formatted}
+      {output.hebrewDate.isLeapYear ? " (leap year)" : ""}
+    </dd>
+    {output.additionalInfo.parsha && (
+      <>
+        <dt>Parsha</dt>
+        <dd>{output.additionalInfo.parsha}</dd>
+      </>
+    )}
+    {output.additionalInfo.isRoshChodesh && (
+      <>
+        <dt>Rosh Chodesh</dt>
+        <dd>Yes</dd>
+      </>
+    )}
+    {output.additionalInfo.dailyLearning.map((entry) => (
+      <Fragment key={entry.schedule}>
+        <dt>{entry.name}</dt>
+        <dd>{entry.reading}</dd>
+      </Fragment>
+    ))}
+    {output.additionalInfo.schedule && (
+      <>
+        <dt>Schedule</dt>
+        <dd>{output.additionalInfo.schedule}</dd>
+      </>
+    )}
+  </dl>
+);
+
+const ResolvedDateCard = ({ output }: { output: ResolveDateOutput }) => (
+  <dl className="tool-result date-conversion">
+    <dt>Date</dt>
+    <dd>
+      {output.date.formatted} ({output.date.hebrewDate})
+    </dd>
+    <dt>From</dt>
+    <dd>{output.explanation}</dd>
+    {output.parsha && (
+      <>
+        <dt>Parsha</dt>
+        <dd>{output.parsha}</dd>
+      </>
+    )}
+  </dl>
+);
+
+const HolidayCard = ({ output }: { output: FindHolidayOutput }) => (
+  <div className="tool-result holiday">
+    <ul>
+      {output.holidays.map((holiday) => (
+        <li key={`${holiday.name}-${holiday.gregorianDate}`}>
+          <strong>{holiday.name}</strong>: {holiday.gregorianDate} (
+          {holiday.hebrewDate})
+        </li>
+      ))}
+    </ul>
+    {output.relatedZmanim.length > 0 && (
+      <table>
+        <thead>
+          <tr>
+            <th>Zman</th>
+            <th>Date</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {output.relatedZmanim.map((zman) => (
+            <tr key={`${zman.name}-${zman.gregorianDate}`}>
+              <td>{zman.name}</td>
+              <td>{zman.gregorianDate}</td>
+              <td>{zman.eventTime}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+    {output.locationNote && <p className="note">{output.locationNote}</p>}
+    {output.schedule && <p className="note">{output.schedule}</p>}
+  </div>
+);
+
+const HolidayListTable = ({ output }: { output: ListHolidaysOutput }) => (
+  <div className="tool-result holiday-list">
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Hebrew date</th>
+          <th>Holiday</th>
+        </tr>
+      </thead>
+      <tbody>
+        {output.holidays.map((holiday) => (
+          <tr key={`${holiday.name}-${holiday.isoDate}`}>
+            <td>{holiday.gregorianDate}</td>
+            <td>{holiday.hebrewDate}</td>
+            <td>{holiday.name}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="note">
+      {output.totalHolidays} entries
+      {output.range ? `, ${output.range.start} to ${output.range.end}` : ""}
+      {output.schedule ? `. ${output.schedule}` : ""}
+    </p>
+  </div>
+);
+
+// "2025-10-17T17:54:00-04:00" -> "17:54", the location's own clock
+const localTime = (iso: string | null) => (iso ? iso.slice(11, 16) : "");
+
+const ShabbatTimesTable = ({ output }: { output: ShabbatTimesOutput }) => (
+  <div className="tool-result holiday-list">
+    <table>
+      <thead>
+        <tr>
+          <th>Shabbat</th>
+          <th>Candles</th>
+          <th>Havdalah</th>
+          <th>Parsha</th>
+        </tr>
+      </thead>
+      <tbody>
+        {output.shabbatot.map((shabbat) => (
+          <tr key={shabbat.date}>
+            <td>
+              {shabbat.date} ({shabbat.hebrewDate})
+            </td>
+            <td>{localTime(shabbat.candleLighting)}</td>
+            <td>
+              {shabbat.havdalah
+                ? localTime(shabbat.havdalah)
+                : `Yom Tov ${localTime(shabbat.yomTovCandleLighting)}`}
+            </td>
+            <td>
+              {[
+                shabbat.parsha,
+                ...shabbat.specialShabbat,
+                ...shabbat.holidays,
+                shabbat.mevarchim?.name,
+              ]
+                .filter(Boolean)
+                .join(", ")}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="note">
+      {output.location.name ? `${output.location.name}. ` : ""}
+      {output.havdalah.degrees !== null
+        ? `Havdalah at ${output.havdalah.degrees}° below the horizon.`
+        : `Havdalah ${output.havdalah.minutes} minutes after sunset.`}
+    </p>
+  </div>
+);
+
+const OmerCard = ({ output }: { output: OmerOutput }) => (
+  <div className="tool-result holiday">
+    {output.tonight && (
+      <>
+        <p>
+          <strong>Day {output.tonight.day}</strong>: {output.tonight.text.en}
+        </p>
+        <p dir="rtl">{output.tonight.text.he}</p>
+        <p>
+          {output.tonight.sefirah.translit} ({output.tonight.sefirah.en})
+          {output.tzeit ? `, from ${localTime(output.tzeit)}` : ""}
+        </p>
+      </>
+    )}
+    <p className="note">{output.note}</p>
+  </div>
+);
+
+const RoshChodeshTable = ({ output }: { output: RoshChodeshOutput }) => (
+  <div className="tool-result holiday-list">
+    <table>
+      <thead>
+        <tr>
+          <th>Month</th>
+          <th>Rosh Chodesh</th>
+          <th>Molad</th>
+          <th>Kiddush Levana</th>
+        </tr>
+      </thead>
+      <tbody>
+        {output.months.map((month) => (
+          <tr key={`${month.month}-${month.year}`}>
+            <td>
+              {month.month} {month.year}
+            </td>
+            <td>{month.roshChodesh.map((day) => day.formatted).join(", ")}</td>
+            <td>{month.molad.text}</td>
+            <td>
+              {month.kiddushLevana.fromThreeDays.slice(0, 10)} to{" "}
+              {month.kiddushLevana.untilHalfMonth.slice(0, 10)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="note">{output.location.name}</p>
+  </div>
+);
+
+const DailyLearningTable = ({ output }: { output: DailyLearningOutput }) => (
+  <div className="tool-result holiday-list">
+    {output.days.map((day) => (
+      <div key={day.date}>
+        <p>
+          <strong>{day.gregorianDate}</strong> ({day.hebrewDate})
+        </p>
+        <table>
+          <tbody>
+            {day.learning.map((entry) => (
+              <tr key={entry.schedule}>
+                <td>{entry.name}</td>
+                <td>{entry.reading}</td>
+                <td>
+                  {entry.cycle !== null ? `Cycle ${entry.cycle}, ` : ""}
+                  day {entry.dayInCycle} of {entry.cycleLength}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ))}
+  </div>
+);
+
+const ParshaCard = ({ output }: { output: ParshaOutput }) => (
+  <div className="tool-result parsha">
+    {output.readings.map((reading) => (
+      <div key={reading.date}>
+        <p>
+          <strong>{reading.name}</strong>
+          {reading.specialShabbat.length
+            ? ` (${reading.specialShabbat.join(", ")})`
+            : ""}
+          : {reading.gregorianDate} ({reading.hebrewDate})
+        </p>
+        <table>
+          <tbody>
+            {reading.aliyot.map((aliyah) => (
+              <tr key={aliyah.aliyah}>
+                <td>{aliyah.aliyah}</td>
+                <td>{aliyah.reading}</td>
+                <td>{aliyah.reason}</td>
+              </tr>
+            ))}
+            <tr>
+              <td>Haftarah</td>
+              <td>
+                {reading.haftarah.ashkenazi}
+                {reading.haftarah.sephardi !== reading.haftarah.ashkenazi
+                  ? ` (Sephardi: ${reading.haftarah.sephardi})`
+                  : ""}
+              </td>
+              <td>{reading.haftarah.reason}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    ))}
+    <p className="note">{output.schedule}</p>
+  </div>
+);
+
+const AnniversaryTable = ({ output }: { output: AnniversariesOutput }) => (
+  <div className="tool-result holiday-list">
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Hebrew date</th>
+          <th>{output.type === "yahrzeit" ? "Yahrzeit" : "Birthday"}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {output.anniversaries.map((anniversary) => (
+          <tr key={anniversary.iso}>
+            <td>{anniversary.gregorianDate}</td>
+            <td>{anniversary.hebrewDate}</td>
+            <td>{anniversary.count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {output.barMitzvah && (
+      <p>
+        Bar mitzvah: {output.barMitzvah.gregorianDate} (
+        {output.barMitzvah.hebrewDate})
+        {output.barMitzvah.parsha ? `, ${output.barMitzvah.parsha}` : ""}
+      </p>
+    )}
+    {output.batMitzvah && (
+      <p>
+        Bat mitzvah: {output.batMitzvah.gregorianDate} (
+        {output.batMitzvah.hebrewDate})
+      </p>
+    )}
+    <p className="note">
+      {[
+        `From ${output.original.hebrewDate} (${output.original.gregorianDate}${
+          output.original.afterSunset ? ", after sunset" : ""
+        })`,
+        ...output.notes,
+      ].join(" ")}
+    </p>
+  </div>
+);
+
+const CalendarLink = ({ output }: { output: CalendarFeedLinkOutput }) => (
+  <div className="tool-result calendar-link">
+    <p>
+      {output.subscribeUrl && (
+        <>
+          <a href={output.subscribeUrl}>Subscribe</a>
+          {" · "}
+        </>
+      )}
+      <a href={output.url} download>
+        Download .ics
+      </a>
+    </p>
+    <p className="note">
+      {output.range
+        ? `${output.range.start} to ${output.range.end}`
+        : output.note}
+    </p>
+  </div>
+);
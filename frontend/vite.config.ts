@@ -10,6 +10,18 @@ export default defineConfig({
         target: "http://localhost:3000",
         changeOrigin: true,
       },
+      "/conversations": {
+        target: "http://localhost:3000",
+        changeOrigin: true,
+      },
+      "/reminders": {
+        target: "http://localhost:3000",
+        changeOrigin: true,
+      },
+      "/api": {
+        target: "http://localhost:3000",
+        changeOrigin: true,
+      },
     },
   },
 });
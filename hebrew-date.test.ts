@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { HDate, months } from "@hebcal/core";
+import { parseHebrewDate, parseHebrewMonth } from "./hebrew-date.ts";
+
+describe("parseHebrewDate", () => {
+  it("reads Hebrew script with gematriya", () => {
+    expect(parseHebrewDate("ט״ו בשבט תשפ״ה")).toEqual({
+      success: true,
+      day: 15,
+      month: months.SHVAT,
+      year: 5785,
+    });
+    expect(parseHebrewDate("כ״ה בְּכִסְלֵו ה׳תשפ״ה")).toMatchObject({
+      day: 25,
+      month: months.KISLEV,
+      year: 5785,
+    });
+    // Year first
+    expect(parseHebrewDate("ה׳תשפ״ה ט״ו שבט")).toMatchObject({
+      day: 15,
+      month: months.SHVAT,
+      year: 5785,
+    });
+    expect(parseHebrewDate("5785 15 Tishrei")).toMatchObject({
+      day: 15,
+      month: months.TISHREI,
+    });
+  });
+
+  it("accepts English spellings, word order and two-digit years", () => {
+    const tishrei = { day: 15, month: months.TISHREI, year: 5785 };
+    expect(parseHebrewDate("15 Tishri 5785")).toMatchObject(tishrei);
+    expect(parseHebrewDate("Tishrei 15, 85")).toMatchObject(tishrei);
+    expect(parseHebrewDate("the 15th of Tishrei 785")).toMatchObject(tishrei);
+    expect(parseHebrewDate("1 Marcheshvan 5785")).toMatchObject({
+      month: months.CHESHVAN,
+    });
+    expect(parseHebrewDate("15/7/5785")).toMatchObject(tishrei);
+  });
+
+  it("reads Adar I, Adar II and Rosh Chodesh", () => {
+    expect(parseHebrewDate("14 Adar II 5784")).toMatchObject({
+      month: months.ADAR_II,
+    });
+    expect(parseHebrewDate("י״ד באדר ב׳ תשפ״ד")).toMatchObject({
+      day: 14,
+      month: months.ADAR_II,
+      year: 5784,
+    });
+    expect(parseHebrewDate("14 Adar 5785")).toMatchObject({
+      month: months.ADAR_I,
+    });
+    expect(parseHebrewDate("Rosh Chodesh Elul 5785")).toMatchObject({
+      day: 1,
+      month: months.ELUL,
+      year: 5785,
+    });
+  });
+
+  it("rejects dates that don't exist in that year", () => {
+    expect(parseHebrewDate("14 Adar II 5785")).toEqual({
+      success: false,
+      error: "5785 is not a leap year, so it has no Adar II. Use Adar.",
+    });
+    expect(parseHebrewDate("14 Adar 5784").success).toBe(false);
+    expect(parseHebrewDate("30 Cheshvan 5784")).toEqual({
+      success: false,
+      error: "Cheshvan 5784 has 29 days, so it has no day 30.",
+    });
+    expect(parseHebrewDate("30 Cheshvan 5785").success).toBe(true);
+    expect(parseHebrewDate("15/14/5785").success).toBe(false);
+  });
+
+  it("says which part it could not read", () => {
+    const result = parseHebrewDate("15 Tishrey 5785");
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('"tishrey"');
+
+    const years = parseHebrewDate("5785 Tishrei 5786");
+    expect(!years.success && years.error).toContain("Use a date like");
+  });
+});
+
+describe("parseHebrewMonth", () => {
+  it("reads a month with a year in English or Hebrew", () => {
+    expect(parseHebrewMonth("Adar II 5784")).toEqual({
+      success: true,
+      month: months.ADAR_II,
+      year: 5784,
+    });
+    expect(parseHebrewMonth("ראש חודש אלול תשפ״ה")).toEqual({
+      success: true,
+      month: months.ELUL,
+      year: 5785,
+    });
+  });
+
+  it("picks the next time the month begins without a year", () => {
+    const from = new HDate(10, months.ADAR_I, 5786);
+
+    expect(parseHebrewMonth("Nisan", from)).toMatchObject({ year: 5786 });
+    expect(parseHebrewMonth("Sh'vat", from)).toMatchObject({ year: 5787 });
+    // 5787 has two months of Adar
+    expect(parseHebrewMonth("Adar", from).success).toBe(false);
+  });
+});
@@ -0,0 +1,345 @@
+import { HDate, gematriyaStrToNum, months } from "@hebcal/core";
+
+export type ParsedHebrewDate =
+  | { success: true; day: number; month: number; year: number }
+  | { success: false; error: string };
+
+export type ParsedHebrewMonth =
+  | { success: true; month: number; year: number }
+  | { success: false; error: string };
+
+// "Adar" on its own is only a full date outside leap years
+const PLAIN_ADAR = 0;
+
+// Spellings of each month, lowercased and without nikud, geresh or gershayim.
+// Month numbers are hebcal's: Nisan is 1, Tishrei is 7, Adar II is 13
+const MONTH_ALIASES: Record<string, number> = {
+  nisan: months.NISAN,
+  nissan: months.NISAN,
+  iyar: months.IYYAR,
+  iyyar: months.IYYAR,
+  iyyor: months.IYYAR,
+  sivan: months.SIVAN,
+  siwan: months.SIVAN,
+  tamuz: months.TAMUZ,
+  tammuz: months.TAMUZ,
+  av: months.AV,
+  ab: months.AV,
+  "menachem av": months.AV,
+  elul: months.ELUL,
+  tishrei: months.TISHREI,
+  tishri: months.TISHREI,
+  tishre: months.TISHREI,
+  cheshvan: months.CHESHVAN,
+  chesvan: months.CHESHVAN,
+  heshvan: months.CHESHVAN,
+  hesvan: months.CHESHVAN,
+  marcheshvan: months.CHESHVAN,
+  marheshvan: months.CHESHVAN,
+  "mar cheshvan": months.CHESHVAN,
+  "mar heshvan": months.CHESHVAN,
+  kislev: months.KISLEV,
+  kislew: months.KISLEV,
+  chislev: months.KISLEV,
+  tevet: months.TEVET,
+  teves: months.TEVET,
+  tebeth: months.TEVET,
+  shvat: months.SHVAT,
+  shevat: months.SHVAT,
+  shebat: months.SHVAT,
+  svat: months.SHVAT,
+  adar: PLAIN_ADAR,
+  "adar i": months.ADAR_I,
+  "adar 1": months.ADAR_I,
+  "adar alef": months.ADAR_I,
+  "adar aleph": months.ADAR_I,
+  "adar rishon": months.ADAR_I,
+  "first adar": months.ADAR_I,
+  "adar ii": months.ADAR_II,
+  "adar 2": months.ADAR_II,
+  "adar bet": months.ADAR_II,
+  "adar beit": months.ADAR_II,
+  "adar sheni": months.ADAR_II,
+  "second adar": months.ADAR_II,
+  ניסן: months.NISAN,
+  אייר: months.IYYAR,
+  איר: months.IYYAR,
+  סיון: months.SIVAN,
+  סיוון: months.SIVAN,
+  תמוז: months.TAMUZ,
+  אב: months.AV,
+  "מנחם אב": months.AV,
+  אלול: months.ELUL,
+  תשרי: months.TISHREI,
+  חשון: months.CHESHVAN,
+  חשוון: months.CHESHVAN,
+  מרחשון: months.CHESHVAN,
+  מרחשוון: months.CHESHVAN,
+  כסלו: months.KISLEV,
+  כסליו: months.KISLEV,
+  טבת: months.TEVET,
+  שבט: months.SHVAT,
+  אדר: PLAIN_ADAR,
+  "אדר א": months.ADAR_I,
+  "אדר ראשון": months.ADAR_I,
+  "אדר ב": months.ADAR_II,
+  "אדר שני": months.ADAR_II,
+};
+
+// Multi-word names like "adar sheni" or "mar cheshvan"
+const LONGEST_ALIAS = 2;
+
+// Words that may surround the day and month ("the 15th of Tishrei")
+const FILLER_WORDS = new Set(["the", "of", "day", "יום"]);
+
+const EXAMPLES = `"15 Tishrei 5785", "ט״ו בשבט תשפ״ה" or "15/7/5785"`;
+
+// Reads a Hebrew date written in English or Hebrew:
+//   "15 Tishrei 5785", "Tishri 15, 5785", "the 15th of Marcheshvan 85",
+//   "ט״ו בשבט תשפ״ה", "14 Adar II 5784", "Rosh Chodesh Elul 5785",
+//   "15/7/5785" (day/month/year, with hebcal's numbering where Tishrei is 7)
+// The year may also come first, as in "ה׳תשפ״ה ט״ו שבט".
+// Years may have two digits (85 is the nearest year ending in 85), three
+// (785) or none, for the current Hebrew year. The date is checked against
+// that year, so "30 Cheshvan" fails in a year where Cheshvan has 29 days
+export function parseHebrewDate(input: string): ParsedHebrewDate {
+  const text = normalize(input);
+  if (!text) {
+    return { success: false, error: `Empty Hebrew date. Use ${EXAMPLES}.` };
+  }
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (numeric) {
+    const month = Number(numeric[2]);
+    if (month < 1 || month > 13) {
+      return {
+        success: false,
+        error: `There is no Hebrew month ${month}. Months are numbered from Nisan (1) through Adar (12) and Adar II (13), with Tishrei as 7.`,
+      };
+    }
+    return validate(Number(numeric[1]), month, parseYear(numeric[3]), input);
+  }
+
+  // Rosh Chodesh is the first of the month. When the month before has 30
+  // days, its 30th is also Rosh Chodesh
+  const roshChodesh = text.match(
+    /^(?:rosh chodesh|rosh hodesh|ראש חודש) (.+)$/
+  );
+  const words = (roshChodesh ? roshChodesh[1] : text).split(" ");
+
+  let month: number | undefined;
+  const numbers: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const found = month === undefined && matchMonth(words, i);
+    if (found) {
+      month = found.month;
+      i += found.length - 1;
+      continue;
+    }
+    const word = words[i];
+    if (FILLER_WORDS.has(word)) {
+      continue;
+    }
+    const value = parseNumber(word);
+    if (value === undefined) {
+      return {
+        success: false,
+        error: `Could not read "${word}" in "${input}". Use a date like ${EXAMPLES}.`,
+      };
+    }
+    numbers.push(value);
+  }
+
+  if (month === undefined) {
+    return {
+      success: false,
+      error: `No Hebrew month found in "${input}". Use a month name like Tishrei, Cheshvan, Adar I or Adar II, e.g. ${EXAMPLES}.`,
+    };
+  }
+  if (roshChodesh) {
+    numbers.unshift("1");
+  }
+  // "Elul 5785" is a month, not a date
+  if (numbers.length === 0 || (numbers.length === 1 && numbers[0].length > 2)) {
+    return {
+      success: false,
+      error: `"${input}" has no day of the month. Use a date like ${EXAMPLES}.`,
+    };
+  }
+  if (numbers.length > 2) {
+    return {
+      success: false,
+      error: `"${input}" has more numbers than a day and a year. Use a date like ${EXAMPLES}.`,
+    };
+  }
+
+  let [day, year] = numbers;
+  // Year first, as in "ה׳תשפ״ה ט״ו שבט"
+  if (year !== undefined && Number(day) > 30 && Number(year) <= 30) {
+    [day, year] = [year, day];
+  }
+  // Two years and no day, as in "5785 Tishrei 5786"
+  if (day.length > 2) {
+    return {
+      success: false,
+      error: `${day} in "${input}" is a year, not a day of the month. Use a date like ${EXAMPLES}.`,
+    };
+  }
+  return validate(
+    Number(day),
+    month,
+    year === undefined ? new HDate().getFullYear() : parseYear(year),
+    input
+  );
+}
+
+// Reads a Hebrew month with an optional year: "Iyar", "Adar II 5784",
+// "Rosh Chodesh Elul", "אדר ב׳ תשפ״ד". Without a year it is the next time the
+// month begins on or after `from`, so "Nisan" in Adar is the coming Nisan
+export function parseHebrewMonth(
+  input: string,
+  from = new HDate()
+): ParsedHebrewMonth {
+  const text = normalize(input).replace(
+    /^(?:rosh chodesh|rosh hodesh|ראש חודש) /,
+    ""
+  );
+  const words = text.split(" ");
+  const found = text ? matchMonth(words, 0) : undefined;
+  if (!found) {
+    return {
+      success: false,
+      error: `No Hebrew month found in "${input}". Use a month name like Tishrei, Cheshvan, Adar I or Adar II.`,
+    };
+  }
+
+  const rest = words.slice(found.length);
+  let year: number;
+  if (rest.length === 0) {
+    year = from.getFullYear();
+    // Adar, or Adar II in a year without one, begins when Adar I does
+    const month =
+      found.month === PLAIN_ADAR ||
+      (found.month === months.ADAR_II && !HDate.isLeapYear(year))
+        ? months.ADAR_I
+        : found.month;
+    if (new HDate(1, month, year).abs() < from.abs()) {
+      year++;
+    }
+  } else {
+    const value = rest.length === 1 ? parseNumber(rest[0]) : undefined;
+    if (value === undefined) {
+      return {
+        success: false,
+        error: `Could not read "${rest.join(" ")}" in "${input}" as a Hebrew year.`,
+      };
+    }
+    year = parseYear(value);
+  }
+
+  const parsed = validate(1, found.month, year, input);
+  return parsed.success
+    ? { success: true, month: parsed.month, year: parsed.year }
+    : parsed;
+}
+
+function validate(
+  day: number,
+  month: number,
+  year: number,
+  input: string
+): ParsedHebrewDate {
+  if (!Number.isInteger(year) || year < 1) {
+    return { success: false, error: `Invalid Hebrew year in "${input}".` };
+  }
+  const leap = HDate.isLeapYear(year);
+  if (month === PLAIN_ADAR) {
+    if (leap) {
+      return {
+        success: false,
+        error: `${year} is a leap year with two months of Adar. Say Adar I or Adar II.`,
+      };
+    }
+    month = months.ADAR_I;
+  } else if (!leap && month === months.ADAR_II) {
+    return {
+      success: false,
+      error: `${year} is not a leap year, so it has no Adar II. Use Adar.`,
+    };
+  }
+
+  const days = HDate.daysInMonth(month, year);
+  if (day < 1 || day > days) {
+    return {
+      success: false,
+      error: `${HDate.getMonthName(month, year)} ${year} has ${days} days, so it has no day ${day}.`,
+    };
+  }
+  return { success: true, day, month, year };
+}
+
+function matchMonth(
+  words: string[],
+  start: number
+): { month: number; length: number } | undefined {
+  for (let length = LONGEST_ALIAS; length >= 1; length--) {
+    if (start + length > words.length) {
+      continue;
+    }
+    // "אדר ב׳", "sh'vat"
+    const name = words
+      .slice(start, start + length)
+      .join(" ")
+      .replace(/['"]/g, "");
+    // "בשבט": Hebrew dates put "in" (ב) before the month
+    for (const candidate of [name, name.replace(/^ב/, "")]) {
+      if (Object.hasOwn(MONTH_ALIASES, candidate)) {
+        return { month: MONTH_ALIASES[candidate], length };
+      }
+    }
+  }
+  return undefined;
+}
+
+// "15", "15th", "5785", "ט״ו", "תשפ״ה", "ה׳תשפ״ה" as digits
+function parseNumber(word: string): string | undefined {
+  const digits = word.match(/^(\d+)(?:st|nd|rd|th)?$/);
+  if (digits) {
+    return digits[1];
+  }
+  if (/^[א-ת'"]+$/.test(word)) {
+    // hebcal reads "ה׳תשפ״ה" as 5785 only with a real geresh
+    const value = gematriyaStrToNum(word.replace(/'/g, "׳"));
+    return value > 0 ? String(value) : undefined;
+  }
+  return undefined;
+}
+
+// Two-digit years are the nearest year ending in those digits; three-digit
+// (and gematriya) years are in the current millennium, as in תשפ״ה = 5785
+function parseYear(text: string): number {
+  const value = Number(text);
+  if (text.length > 2 || value > 99) {
+    return value < 1000 ? 5000 + value : value;
+  }
+  const current = new HDate().getFullYear();
+  const century = Math.floor(current / 100) * 100;
+  return [century - 100, century, century + 100]
+    .map((base) => base + value)
+    .reduce((best, year) =>
+      Math.abs(year - current) < Math.abs(best - current) ? year : best
+    );
+}
+
+// Lowercase, no nikud, and ASCII quotes for geresh (׳) and gershayim (״)
+function normalize(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/[֑-ׇ]/g, "")
+    .replace(/[׳‘’`]/g, "'")
+    .replace(/[״“”]/g, '"')
+    .replace(/-(?=[a-z])/g, " ")
+    .replace(/[,]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
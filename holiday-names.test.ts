@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { rankHolidayNames, selectHolidayMatches } from "./holiday-names.ts";
+
+const NAMES = [
+  "Pesach",
+  "Pesach Sheni",
+  "Sukkot",
+  "Simchat Torah",
+  "Purim",
+  "Purim Katan",
+  "Shushan Purim",
+  "Tu BiShvat",
+  "Tu B'Av",
+  "Yom Kippur",
+  "Rosh Chodesh Nisan",
+  "Rosh Chodesh Iyyar",
+];
+
+const best = (query: string) =>
+  selectHolidayMatches(rankHolidayNames(query, NAMES)).map(
+    (match) => match.basename
+  );
+
+describe("rankHolidayNames", () => {
+  it("matches English, Ashkenazi and Hebrew spellings exactly", () => {
+    expect(best("Passover")).toEqual(["Pesach"]);
+    expect(best("Pesach")).toEqual(["Pesach"]);
+    expect(best("Sukkos")).toEqual(["Sukkot"]);
+    expect(best("Succot")).toEqual(["Sukkot"]);
+    expect(best("Simchas Torah")).toEqual(["Simchat Torah"]);
+    expect(best("Purim Koton")).toEqual(["Purim Katan"]);
+    expect(best("פסח")).toEqual(["Pesach"]);
+    expect(best("יום כיפור")).toEqual(["Yom Kippur"]);
+    expect(rankHolidayNames("Hanukkah", ["Chanukah"])[0]).toMatchObject({
+      basename: "Chanukah",
+      score: 1,
+    });
+  });
+
+  it("ranks close misspellings and partial names below exact ones", () => {
+    const [match] = rankHolidayNames("Yom Kipper", NAMES);
+    expect(match.basename).toBe("Yom Kippur");
+    expect(match.score).toBeLessThan(1);
+    expect(match.score).toBeGreaterThan(0.7);
+
+    const purim = rankHolidayNames("Purim", NAMES);
+    expect(purim.map((m) => m.basename).slice(0, 3)).toEqual([
+      "Purim",
+      "Purim Katan",
+      "Shushan Purim",
+    ]);
+    expect(best("Purim")).toEqual(["Purim"]);
+    expect(best("erev Yom Kippur")).toEqual(["Yom Kippur"]);
+    expect(best("Rosh Chodesh")).toEqual([
+      "Rosh Chodesh Iyyar",
+      "Rosh Chodesh Nisan",
+    ]);
+  });
+
+  it("only suggests holidays for very short or unrelated queries", () => {
+    expect(best("Tu")).toEqual([]);
+    expect(rankHolidayNames("Tu", NAMES).map((m) => m.basename)).toEqual([
+      "Tu B'Av",
+      "Tu BiShvat",
+    ]);
+    expect(rankHolidayNames("Xmas", NAMES)).toEqual([]);
+  });
+
+  it("does not take a different holiday for the one it contains", () => {
+    expect(best("Purim Katan")).toEqual(["Purim Katan"]);
+    expect(best("Purim Katan")).not.toContain("Purim");
+    expect(
+      selectHolidayMatches(rankHolidayNames("Purim Katan", ["Purim"]))
+    ).toEqual([]);
+  });
+});
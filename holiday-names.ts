@@ -0,0 +1,171 @@
+import { Locale } from "@hebcal/core";
+import { levenshtein } from "./location.ts";
+
+export interface HolidayMatch {
+  // hebcal's name for the holiday, as returned by Event.basename()
+  basename: string;
+  // The spelling that matched best
+  alias: string;
+  // 1 for an exact match, down to MIN_SUGGESTION_SCORE
+  score: number;
+}
+
+// Scores from here on are matches; below it they are only suggestions
+export const MIN_MATCH_SCORE = 0.7;
+const MIN_SUGGESTION_SCORE = 0.4;
+
+// Words around a holiday name that don't make it a different holiday, in
+// folded spelling
+const EXTRA_WORDS = new Set([
+  "erev",
+  "eve",
+  "first",
+  "second",
+  "last",
+  "day",
+  "days",
+  "night",
+  "of",
+  "the",
+  "holiday",
+  // "chag", once folded
+  "hag",
+]);
+
+// Names hebcal doesn't render in any locale: English, Sephardi and
+// alternative spellings, and Hebrew as people type it. hebcal's own English,
+// Ashkenazi and Hebrew names are always included
+const HOLIDAY_ALIASES: Record<string, string[]> = {
+  "Rosh Hashana": ["Rosh Hashanah", "Jewish New Year", "ראש השנה"],
+  "Yom Kippur": ["Yom Kipur", "Day of Atonement", "יום כיפור"],
+  Sukkot: ["Succot", "Succos", "Sukkoth", "Tabernacles", "Feast of Booths"],
+  "Shmini Atzeret": ["Shemini Atzeret", "Shemini Atzeres"],
+  "Simchat Torah": ["Simhat Torah", "Simchas Torah"],
+  Chanukah: [
+    "Hanukkah",
+    "Hanukah",
+    "Chanuka",
+    "Chanukkah",
+    "Festival of Lights",
+  ],
+  "Tu BiShvat": ["Tu B'Shvat", "Tu B'Shevat", "New Year of the Trees"],
+  "Ta'anit Esther": ["Taanis Esther", "Fast of Esther"],
+  "Purim Katan": ["Purim Koton"],
+  Pesach: ["Passover", "Pesah", "Peisach", "Pessach"],
+  "Pesach Sheni": ["Second Passover"],
+  "Ta'anit Bechorot": ["Fast of the Firstborn"],
+  "Lag BaOmer": ["Lag B'Omer", "ל״ג בעומר"],
+  Shavuot: ["Shavuoth", "Feast of Weeks", "Pentecost"],
+  "Tzom Gedaliah": ["Fast of Gedaliah", "Tzom Gedalia"],
+  "Asara B'Tevet": ["Asarah B'Teves", "Tenth of Tevet", "10 Tevet"],
+  "Tzom Tammuz": [
+    "Shiva Asar B'Tammuz",
+    "Seventeenth of Tammuz",
+    "17 Tammuz",
+    "י״ז בתמוז",
+  ],
+  "Tish'a B'Av": ["Tisha B'Av", "Ninth of Av", "9 Av", "9th of Av"],
+  "Tu B'Av": ["Fifteenth of Av", "15 Av"],
+  "Yom HaShoah": ["Holocaust Remembrance Day"],
+  "Yom HaZikaron": ["Israeli Memorial Day", "Memorial Day"],
+  "Yom HaAtzma'ut": ["Israel Independence Day", "Independence Day"],
+  "Yom Yerushalayim": ["Jerusalem Day"],
+  "Leil Selichot": ["Selichot", "Selichos", "סליחות"],
+};
+
+// Ranks hebcal holiday names against what the user typed, best first. Names
+// are compared in a folded spelling, so "Sukkos", "Succot" and "Sukkot", or
+// "Chanukah" and "Hanukah", are the same word; anything else is scored by
+// edit distance. A query of one or two letters ("Tu") is never a match on
+// its own, only a suggestion
+export function rankHolidayNames(
+  query: string,
+  basenames: Iterable<string>,
+  locale = "en"
+): HolidayMatch[] {
+  const folded = fold(query);
+  if (!folded) {
+    return [];
+  }
+  const matches: HolidayMatch[] = [];
+  for (const basename of new Set(basenames)) {
+    let best: HolidayMatch | undefined;
+    for (const alias of aliasesFor(basename, locale)) {
+      const score = scoreName(folded, fold(alias));
+      // Several spellings fold alike; report the one the user typed
+      const typed = alias.toLowerCase() === query.trim().toLowerCase();
+      if (!best || score > best.score || (score === best.score && typed)) {
+        best = { basename, alias, score };
+      }
+    }
+    if (best && best.score >= MIN_SUGGESTION_SCORE) {
+      matches.push({ ...best, score: Math.round(best.score * 100) / 100 });
+    }
+  }
+  return matches.sort(
+    (a, b) => b.score - a.score || a.basename.localeCompare(b.basename)
+  );
+}
+
+// The holidays a query means: the best match, and any that score as well
+// ("Rosh Chodesh" is every Rosh Chodesh). Empty when nothing is close enough
+export function selectHolidayMatches(ranked: HolidayMatch[]): HolidayMatch[] {
+  const best = ranked[0];
+  if (!best || best.score < MIN_MATCH_SCORE) {
+    return [];
+  }
+  return ranked.filter((match) => match.score >= best.score - 0.05);
+}
+
+function aliasesFor(basename: string, locale: string): string[] {
+  return [
+    basename,
+    Locale.gettext(basename, "ashkenazi"),
+    Locale.gettext(basename, "he-x-NoNikud"),
+    Locale.gettext(basename, locale),
+    ...(HOLIDAY_ALIASES[basename] ?? []),
+  ];
+}
+
+function scoreName(query: string, name: string): number {
+  if (query === name) {
+    return 1;
+  }
+  const long = query.length >= 3;
+  // "Purim" for "Purim Katan"
+  if (name.startsWith(`${query} `)) {
+    return long ? 0.9 : 0.5;
+  }
+  // "Erev Yom Kippur" or "first day of Pesach" for "Yom Kippur" and
+  // "Pesach". "Purim Katan" is not Purim, only close to it
+  if (name.length >= 4 && ` ${query} `.includes(` ${name} `)) {
+    const rest = ` ${query} `.replace(` ${name} `, " ").trim().split(" ");
+    return rest.every((word) => EXTRA_WORDS.has(word)) ? 0.85 : 0.6;
+  }
+  // "Purim" for "Shushan Purim"
+  if (` ${name} `.includes(` ${query} `)) {
+    return long ? 0.8 : 0.5;
+  }
+  const similarity =
+    1 - levenshtein(query, name) / Math.max(query.length, name.length);
+  return long ? similarity * 0.95 : similarity / 2;
+}
+
+// Lowercase without nikud or punctuation, and with the usual transliteration
+// differences evened out: ch/kh/h, tz/ts, doubled letters, a final h, and the
+// Ashkenazi s for a final tav (Shavuos, Atzeres)
+function fold(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[֑-ׇ]/g, "")
+    .replace(/['’‘`׳״"]/g, "")
+    .replace(/[-־:,.()]/g, " ")
+    .replace(/[ck]h/g, "h")
+    .replace(/ts/g, "tz")
+    .replace(/c(?=[aouck])/g, "k")
+    .replace(/([a-z])\1+/g, "$1")
+    .replace(/([aeiou])s\b/g, "$1t")
+    .replace(/([aeiou])h\b/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { buildIcsFeed } from "./ics.ts";
+
+function feed(...args: Parameters<typeof buildIcsFeed>) {
+  const result = buildIcsFeed(...args);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+// Unfolds continuation lines and splits the feed into its events
+function events(ics: string) {
+  return ics
+    .replace(/\r\n /g, "")
+    .split("BEGIN:VEVENT\r\n")
+    .slice(1)
+    .map((event) => event.split("\r\n"));
+}
+
+describe("buildIcsFeed", () => {
+  it("writes holidays as all-day events", () => {
+    const { ics } = feed(2024, undefined, {
+      categories: ["major"],
+      candles: false,
+    });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    const yomKippur = events(ics).find((lines) =>
+      lines.includes("SUMMARY:Yom Kippur")
+    );
+    expect(yomKippur).toContain("DTSTART;VALUE=DATE:20241012");
+    expect(yomKippur).toContain("DTEND;VALUE=DATE:20241013");
+  });
+
+  it("writes candle lighting in UTC for the location's timezone", () => {
+    const { ics } = feed(
+      2024,
+      { city: "Jerusalem" },
+      { categories: ["major"] }
+    );
+
+    expect(ics).toContain("X-WR-TIMEZONE:Asia/Jerusalem");
+    // 17:31 IDT, 40 minutes before sunset
+    const candles = events(ics).find((lines) =>
+      lines.includes("DTSTART:20241011T143100Z")
+    );
+    expect(candles?.find((line) => line.startsWith("SUMMARY:"))).toMatch(
+      /^SUMMARY:Candle lighting/
+    );
+  });
+
+  it("gives events the same UIDs every time", () => {
+    const uids = (ics: string) =>
+      ics.split("\r\n").filter((line) => line.startsWith("UID:"));
+    const first = uids(feed(2024, { city: "London" }).ics);
+    const second = uids(feed(2024, { city: "London" }).ics);
+
+    expect(first).toEqual(second);
+    expect(new Set(first).size).toBe(first.length);
+  });
+
+  it("folds long lines at 75 bytes", () => {
+    const { ics } = feed(2024, { city: "Jerusalem" }, { language: "he" });
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it("reports invalid periods and locations", () => {
+    expect(buildIcsFeed(5785).success).toBe(false);
+    expect(buildIcsFeed(2024, { city: "Londn" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { type Event, HDate, HebrewCalendar, TimedEvent } from "@hebcal/core";
+import {
+  type CalendarFeedOptions,
+  HAVDALAH_MINS,
+  resolvePeriod,
+  selectHolidays,
+  toIsoDate,
+} from "./tools.ts";
+import { type LocationInput, resolveLocation } from "./location.ts";
+import { hebcalLocale } from "./language.ts";
+
+// How far a feed without a year or range reaches, so subscriptions stay current
+const DEFAULT_FEED_DAYS_BEFORE = 30;
+const DEFAULT_FEED_DAYS_AFTER = 365;
+
+const TIMED_CATEGORIES = ["candles", "havdalah", "zmanim"];
+
+export type IcsFeedResult =
+  | {
+      success: true;
+      ics: string;
+      filename: string;
+      range: { start: string; end: string };
+      eventCount: number;
+    }
+  | { success: false; error: string; suggestions?: string[] };
+
+// Builds an iCalendar (RFC 5545) feed of holidays and, optionally, candle
+// lighting times. Holidays are all-day events; times are written in UTC, so
+// they are exact in any calendar app without shipping VTIMEZONE rules
+export function buildIcsFeed(
+  year: number | undefined,
+  locationInput?: LocationInput,
+  options: CalendarFeedOptions = {}
+): IcsFeedResult {
+  try {
+    let { start, end } = options;
+    if (year === undefined && !start && !end) {
+      const today = new HDate();
+      start = toIsoDate(today.subtract(DEFAULT_FEED_DAYS_BEFORE, "d"));
+      end = toIsoDate(today.add(DEFAULT_FEED_DAYS_AFTER, "d"));
+    }
+    const period = resolvePeriod({ ...options, year, start, end });
+    if (!period.success) {
+      return { success: false, error: period.error };
+    }
+
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const il = options.il ?? location.getIsrael();
+    const candles = options.candles ?? true;
+    const locale = hebcalLocale(options.language);
+
+    const events = HebrewCalendar.calendar({
+      ...period.calendarOptions,
+      il,
+      candlelighting: candles,
+      location,
+      havdalahMins: HAVDALAH_MINS,
+    });
+    const categories = options.categories?.length
+      ? options.categories
+      : undefined;
+    const holidays = new Set(selectHolidays(events, categories));
+    const selected = selectHolidays(
+      events.filter(
+        (event) =>
+          holidays.has(event) ||
+          event
+            .getCategories()
+            .some((category) => TIMED_CATEGORIES.includes(category))
+      )
+    );
+
+    const name = `Jewish Calendar (${location.getName()}, ${il ? "Israel" : "Diaspora"})`;
+    const stamp = formatUtc(new Date());
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//ai-sdk-demo//Jewish Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(name)}`,
+      `X-WR-TIMEZONE:${location.getTzid()}`,
+    ];
+    for (const event of selected) {
+      lines.push(
+        ...formatEvent(event, {
+          stamp,
+          locale,
+          uidScope: `${location.getName()}|${il}`,
+        })
+      );
+    }
+    lines.push("END:VCALENDAR");
+
+    return {
+      success: true,
+      ics: lines.map(foldLine).join("\r\n") + "\r\n",
+      filename: `jewish-calendar-${period.range.start}-${period.range.end}.ics`,
+      range: period.range,
+      eventCount: selected.length,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error building calendar feed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+function formatEvent(
+  event: Event,
+  {
+    stamp,
+    locale,
+    uidScope,
+  }: { stamp: string; locale: string; uidScope: string }
+): string[] {
+  const hd = event.getDate();
+  const isoDate = toIsoDate(hd);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid(`${isoDate}|${event.getDesc()}|${uidScope}`)}`,
+    `DTSTAMP:${stamp}`,
+  ];
+  if (event instanceof TimedEvent) {
+    lines.push(
+      `DTSTART:${formatUtc(event.eventTime)}`,
+      `DTEND:${formatUtc(event.eventTime)}`
+    );
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${isoDate.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${toIsoDate(hd.next()).replace(/-/g, "")}`,
+      "TRANSP:TRANSPARENT"
+    );
+  }
+  lines.push(
+    `SUMMARY:${escapeText(event.render(locale))}`,
+    `DESCRIPTION:${escapeText([hd.toString(), event.memo].filter(Boolean).join("\n"))}`,
+    `CATEGORIES:${event.getCategories().map(escapeText).join(",")}`
+  );
+  const url = event.url();
+  if (url) {
+    lines.push(`URL:${url}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// The same event in the same feed always gets the same UID, so calendar apps
+// update it in place instead of duplicating it on every refresh
+function uid(key: string): string {
+  return `${createHash("sha1").update(key).digest("hex")}@ai-sdk-demo`;
+}
+
+// 20241011T221500Z
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Counted in UTF-8 bytes, without splitting a character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,274 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { app } from "./index.ts";
+
+let server: Server;
+let baseUrl: string;
+let conversationsDir: string;
+let remindersDir: string;
+
+beforeAll(async () => {
+  conversationsDir = await mkdtemp(path.join(tmpdir(), "conversations-"));
+  process.env.CONVERSATIONS_DIR = conversationsDir;
+  remindersDir = await mkdtemp(path.join(tmpdir(), "reminders-"));
+  process.env.REMINDERS_DIR = remindersDir;
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.close();
+  await rm(conversationsDir, { recursive: true, force: true });
+  await rm(remindersDir, { recursive: true, force: true });
+});
+
+// Posts to /chat and decodes the server-sent UI message stream into chunks
+async function chat(body: object) {
+  const response = await fetch(`${baseUrl}/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  const chunks = text
+    .split("\n")
+    .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+  return { response, chunks };
+}
+
+async function complete(body: object) {
+  const response = await fetch(`${baseUrl}/chat/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { response, result: await response.json() };
+}
+
+function userMessage(text: string) {
+  return { id: "user-1", role: "user", parts: [{ type: "text", text }] };
+}
+
+function streamedText(chunks: { type: string; delta?: string }[]) {
+  return chunks
+    .filter((chunk) => chunk.type === "text-delta")
+    .map((chunk) => chunk.delta)
+    .join("");
+}
+
+describe("POST /chat", () => {
+  it("streams a scripted text answer", async () => {
+    const { response, chunks } = await chat({
+      model: "mock:hello",
+      messages: [userMessage("Hi")],
+    });
+
+    expect(response.status).toBe(200);
+    expect(chunks[0].type).toBe("start");
+    expect(streamedText(chunks)).toBe(
+      "Hello! Ask me anything about the Jewish calendar."
+    );
+    expect(chunks.at(-1).type).toBe("finish");
+  });
+
+  it("runs the real findJewishHoliday tool and streams its result", async () => {
+    const { chunks } = await chat({
+      model: "mock:yom-kippur",
+      messages: [userMessage("When is Yom Kippur 2024?")],
+    });
+
+    const input = chunks.find((chunk) => chunk.type === "tool-input-available");
+    expect(input).toMatchObject({
+      toolName: "findJewishHoliday",
+      input: { year: 2024, holidayName: "Yom Kippur" },
+    });
+
+    const output = chunks.find(
+      (chunk) => chunk.type === "tool-output-available"
+    );
+    expect(output.toolCallId).toBe(input.toolCallId);
+    expect(output.output.found).toBe(true);
+    expect(output.output.holidays).toContainEqual(
+      expect.objectContaining({ gregorianDate: "Saturday, October 12, 2024" })
+    );
+
+    expect(streamedText(chunks)).toBe(
+      "Yom Kippur 5785 falls on Saturday, October 12, 2024."
+    );
+  });
+
+  it("passes the request location to the tools", async () => {
+    const { chunks } = await chat({
+      model: "mock:yom-kippur",
+      location: { city: "London" },
+      messages: [userMessage("When is Yom Kippur 2024?")],
+    });
+
+    const output = chunks.find(
+      (chunk) => chunk.type === "tool-output-available"
+    );
+    expect(output.output.location.name).toBe("London");
+  });
+
+  it("answers in Yiddish unless another language is chosen", async () => {
+    const holidayNames = async (language?: string) => {
+      const { chunks } = await chat({
+        model: "mock:yom-kippur",
+        language,
+        messages: [userMessage("When is Yom Kippur 2024?")],
+      });
+      const output = chunks.find(
+        (chunk) => chunk.type === "tool-output-available"
+      );
+      return output.output.holidays.map(
+        (holiday: { name: string }) => holiday.name
+      );
+    };
+
+    expect(await holidayNames()).toContain("יום כפור");
+    expect(await holidayNames("en")).toContain("Yom Kippur");
+  });
+
+  it("rejects requests without messages", async () => {
+    const { response } = await chat({ model: "mock:hello" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects unsupported languages", async () => {
+    const { response } = await chat({
+      model: "mock:hello",
+      language: "fr",
+      messages: [userMessage("Hi")],
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects unknown timezones", async () => {
+    const { response } = await chat({
+      model: "mock:hello",
+      timezone: "Mars/Olympus_Mons",
+      messages: [userMessage("Hi")],
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects unknown models", async () => {
+    const { response } = await chat({
+      model: "mock:no-such-script",
+      messages: [userMessage("Hi")],
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("POST /chat/complete", () => {
+  it("returns the answer, tool calls and usage as JSON", async () => {
+    const { response, result } = await complete({
+      model: "mock:yom-kippur",
+      messages: [userMessage("When is Yom Kippur 2024?")],
+    });
+
+    expect(response.status).toBe(200);
+    expect(result.text).toBe(
+      "Yom Kippur 5785 falls on Saturday, October 12, 2024."
+    );
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0]).toMatchObject({
+      toolName: "findJewishHoliday",
+      input: { year: 2024, holidayName: "Yom Kippur" },
+      output: { found: true },
+    });
+    expect(result.finishReason).toBe("stop");
+    expect(result.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("stores the exchange when continuing a conversation", async () => {
+    const created = await fetch(`${baseUrl}/conversations`, { method: "POST" });
+    const { id } = await created.json();
+
+    const { result } = await complete({
+      model: "mock:yom-kippur",
+      conversationId: id,
+      message: userMessage("When is Yom Kippur 2024?"),
+    });
+    expect(result.conversationId).toBe(id);
+
+    const stored = await (await fetch(`${baseUrl}/conversations/${id}`)).json();
+    expect(stored.messages).toMatchObject([
+      { role: "user" },
+      { role: "assistant" },
+    ]);
+    expect(stored.messages[1].parts).toContainEqual(
+      expect.objectContaining({
+        type: "tool-findJewishHoliday",
+        state: "output-available",
+      })
+    );
+  });
+
+  it("validates requests like /chat", async () => {
+    const { response } = await complete({
+      model: "mock:hello",
+      language: "fr",
+      messages: [userMessage("Hi")],
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("/reminders", () => {
+  it("creates, fetches and deletes an Omer reminder", async () => {
+    const created = await fetch(`${baseUrl}/reminders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        location: { city: "Jerusalem" },
+        webhookUrl: "https://example.com/omer",
+      }),
+    });
+    const reminder = await created.json();
+    expect(created.status).toBe(201);
+    expect(reminder.location).toEqual({ city: "Jerusalem" });
+
+    const fetched = await fetch(`${baseUrl}/reminders/${reminder.id}`);
+    expect(await fetched.json()).toEqual(reminder);
+
+    const deleted = await fetch(`${baseUrl}/reminders/${reminder.id}`, {
+      method: "DELETE",
+    });
+    expect(deleted.status).toBe(204);
+    const missing = await fetch(`${baseUrl}/reminders/${reminder.id}`);
+    expect(missing.status).toBe(404);
+  });
+
+  it("rejects unknown cities and bad webhook URLs", async () => {
+    const post = (body: object) =>
+      fetch(`${baseUrl}/reminders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const city = await post({ location: { city: "Atlantis" } });
+    expect(city.status).toBe(400);
+    expect((await city.json()).suggestions).toBeDefined();
+
+    const webhook = await post({
+      location: { city: "London" },
+      webhookUrl: "ftp://example.com",
+    });
+    expect(webhook.status).toBe(400);
+  });
+});
@@ -1,18 +1,51 @@
 import express from "express";
 import type { Request, Response } from "express";
-import { google } from "@ai-sdk/google";
+import { pathToFileURL } from "node:url";
 import {
+  type LanguageModel,
   type ModelMessage,
+  type UIMessage,
+  generateText,
   stepCountIs,
   streamText,
   convertToModelMessages,
+  generateId,
+  safeValidateUIMessages,
 } from "ai";
 import "dotenv/config";
-import { aiTools } from "./tools.ts";
+import { createAiTools } from "./tools.ts";
+import { locationSchema, resolveLocation, timezoneSchema } from "./location.ts";
+import { CHAT_DEFAULT_LANGUAGE, languageSchema } from "./language.ts";
+import { buildSystemPrompt } from "./prompt.ts";
+import { apiRouter } from "./api.ts";
+import { PROVIDERS, defaultModelId, resolveModel } from "./models.ts";
+import {
+  createConversation,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  saveMessages,
+} from "./conversations.ts";
+import {
+  type OmerNotification,
+  createReminder,
+  deleteReminder,
+  getReminder,
+  reminderEvents,
+  reminderInputSchema,
+  startReminderScheduler,
+} from "./reminders.ts";
 
-const app = express();
+export const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Fail fast on a misconfigured MODEL rather than on the first chat request
+const defaultModel = resolveModel();
+if (!defaultModel.success) {
+  console.error(defaultModel.error);
+  process.exit(1);
+}
+
 // Middleware to parse JSON bodies
 app.use(express.json());
 
@@ -23,41 +56,302 @@ app.get("/", (req: Request, res: Response) => {
 
 // Health check endpoint
 app.get("/health", (req: Request, res: Response) => {
-  res.json({ status: "OK" });
+  res.json({
+    status: "OK",
+    model: {
+      id: defaultModelId(),
+      provider: defaultModel.provider,
+      modelId: defaultModel.modelId,
+    },
+    providers: PROVIDERS,
+  });
 });
 
-// Chat endpoint
-app.post("/chat", async (req: Request, res: Response) => {
+// Calendar endpoints that call the tools directly, without the model
+app.use("/api", apiRouter);
+
+// Conversation endpoints
+app.post("/conversations", async (req: Request, res: Response) => {
   try {
-    const { messages } = req.body;
+    const title = req.body?.title;
+    if (title !== undefined && typeof title !== "string") {
+      return res.status(400).json({ error: "Title must be a string" });
+    }
+    res.status(201).json(await createConversation(title));
+  } catch (error) {
+    console.error("Create conversation error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
 
-    if (!messages || !Array.isArray(messages)) {
+app.get("/conversations", async (req: Request, res: Response) => {
+  try {
+    res.json({ conversations: await listConversations() });
+  } catch (error) {
+    console.error("List conversations error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/conversations/:id", async (req: Request, res: Response) => {
+  try {
+    const conversation = await getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    res.json(conversation);
+  } catch (error) {
+    console.error("Get conversation error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/conversations/:id", async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteConversation(req.params.id))) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("Delete conversation error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Omer count reminders, sent each night at tzeit to a webhook, or to the
+// browser through /reminders/:id/events
+app.post("/reminders", async (req: Request, res: Response) => {
+  try {
+    const input = reminderInputSchema.safeParse(req.body ?? {});
+    if (!input.success) {
+      return res
+        .status(400)
+        .json({ error: "Invalid reminder", issues: input.error.issues });
+    }
+    const resolved = resolveLocation(input.data.location);
+    if (!resolved.success) {
       return res.status(400).json({
-        error: "Messages array is required",
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
       });
     }
+    res.status(201).json(await createReminder(input.data));
+  } catch (error) {
+    console.error("Create reminder error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.get("/reminders/:id", async (req: Request, res: Response) => {
+  try {
+    const reminder = await getReminder(req.params.id);
+    if (!reminder) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+    res.json(reminder);
+  } catch (error) {
+    console.error("Get reminder error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+app.delete("/reminders/:id", async (req: Request, res: Response) => {
+  try {
+    if (!(await deleteReminder(req.params.id))) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("Delete reminder error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Server-sent events for a browser reminder: one "omer" event each night,
+// for the page to show as a notification
+app.get("/reminders/:id/events", async (req: Request, res: Response) => {
+  try {
+    const reminder = await getReminder(req.params.id);
+    if (!reminder) {
+      return res.status(404).json({ error: "Reminder not found" });
+    }
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    const send = (notification: OmerNotification) => {
+      res.write(`event: omer\ndata: ${JSON.stringify(notification)}\n\n`);
+    };
+    reminderEvents.on(reminder.id, send);
+    req.on("close", () => reminderEvents.off(reminder.id, send));
+  } catch (error) {
+    console.error("Reminder events error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+type PreparedChat =
+  | {
+      success: true;
+      model: LanguageModel;
+      system: string;
+      messages: ModelMessage[];
+      tools: ReturnType<typeof createAiTools>;
+      uiMessages: UIMessage[];
+      conversationId?: string;
+    }
+  | { success: false; status: number; body: object };
+
+// Validates a /chat or /chat/complete body and assembles the model call.
+// Either send the full `messages` array (stateless), or a `conversationId`
+// plus the new user `message` to continue a stored conversation
+async function prepareChat(req: Request): Promise<PreparedChat> {
+  const {
+    messages,
+    location,
+    timezone,
+    language,
+    conversationId,
+    message,
+    model,
+  } = req.body ?? {};
+
+  // Optional per-request model override, e.g. "local:llama3.1"
+  if (model !== undefined && typeof model !== "string") {
+    return {
+      success: false,
+      status: 400,
+      body: { error: "Model must be a string" },
+    };
+  }
+  const resolvedModel = resolveModel(model);
+  if (!resolvedModel.success) {
+    return {
+      success: false,
+      status: 400,
+      body: { error: resolvedModel.error },
+    };
+  }
+
+  // Optional saved location from the client, used as the tools' default
+  const parsedLocation = locationSchema.optional().safeParse(location);
+  if (!parsedLocation.success) {
+    return {
+      success: false,
+      status: 400,
+      body: { error: "Invalid location", issues: parsedLocation.error.issues },
+    };
+  }
+
+  // The user's own timezone, for the current date and time
+  const parsedTimezone = timezoneSchema.optional().safeParse(timezone);
+  if (!parsedTimezone.success) {
+    return {
+      success: false,
+      status: 400,
+      body: { error: "Invalid timezone", issues: parsedTimezone.error.issues },
+    };
+  }
+
+  // Response language: "en", "he", "yi" (default) or "translit"
+  const parsedLanguage = languageSchema.optional().safeParse(language);
+  if (!parsedLanguage.success) {
+    return {
+      success: false,
+      status: 400,
+      body: { error: "Invalid language", issues: parsedLanguage.error.issues },
+    };
+  }
+  const responseLanguage = parsedLanguage.data ?? CHAT_DEFAULT_LANGUAGE;
+
+  let uiMessages: UIMessage[];
+  if (conversationId !== undefined) {
+    const conversation = await getConversation(String(conversationId));
+    if (!conversation) {
+      return {
+        success: false,
+        status: 404,
+        body: { error: "Conversation not found" },
+      };
+    }
+    const validated = await safeValidateUIMessages({ messages: [message] });
+    if (!validated.success || validated.data[0].role !== "user") {
+      return {
+        success: false,
+        status: 400,
+        body: {
+          error: "A user message is required when continuing a conversation",
+        },
+      };
+    }
+    uiMessages = [...conversation.messages, validated.data[0]];
+    // Store the question right away so it survives a failed response
+    await saveMessages(conversation.id, uiMessages);
+  } else {
+    if (!messages || !Array.isArray(messages)) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Messages array is required" },
+      };
+    }
+    uiMessages = messages;
+  }
 
+  return {
+    success: true,
+    model: resolvedModel.model,
+    system: buildSystemPrompt(responseLanguage),
     // Convert UI messages to model messages
-    const modelMessages = convertToModelMessages(messages);
+    messages: convertToModelMessages(uiMessages),
+    tools: createAiTools({
+      location: parsedLocation.data,
+      timezone: parsedTimezone.data,
+      language: responseLanguage,
+      baseUrl: process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`,
+    }),
+    uiMessages,
+    conversationId:
+      conversationId !== undefined ? String(conversationId) : undefined,
+  };
+}
+
+// Streaming chat endpoint, for useChat and other AI SDK clients
+app.post("/chat", async (req: Request, res: Response) => {
+  try {
+    const chat = await prepareChat(req);
+    if (!chat.success) {
+      return res.status(chat.status).json(chat.body);
+    }
+    const { uiMessages, conversationId } = chat;
 
     const result = streamText({
-      model: google("gemini-2.0-flash"),
-      system: `You are a helpful assistant that can help with answering questions about the Jewish calendar and date conversion.
-      when the user uses a relative date such as "this year", "last year", they are referring to the HEBREW YEAR. use the todaysDate tool to find out the current date, and then use the
-      convertDate tool to convert the date to the hebrew date so that you know what the current Hebrew year is.
-      You can use the listJewishHolidays tool to list all the Jewish holidays for a given year, returns all the information about the holidays including date and name
-      You can use the findJewishHoliday tool to find a specific Jewish holiday by name and year, returns all the information about the holiday including candle lighting time and zmanim.
-      If you're unsure how a holiday is spelled, use the listJewishHolidays tool to list all the Jewish holidays for a given year, and then use the findJewishHoliday tool to find the holiday by name.
-
-      IMPORTANT: always write your response in YIDDISH. אייביג שרייב דיין ענטפער אין א היימישע חסידישע אידיש אזויווי מ׳שרייבט אויף אייוועלט, בשום אופן נוץ נישט ייווא אידיש אדער כלל אידיש
-      `,
-      messages: modelMessages,
+      model: chat.model,
+      system: chat.system,
+      messages: chat.messages,
       stopWhen: stepCountIs(10),
-      tools: aiTools,
+      tools: chat.tools,
     });
 
     // Use AI SDK's built-in streaming response handler
-    result.pipeUIMessageStreamToResponse(res);
+    result.pipeUIMessageStreamToResponse(
+      res,
+      conversationId !== undefined
+        ? {
+            originalMessages: uiMessages,
+            generateMessageId: generateId,
+            onFinish: async ({ messages: finished }) => {
+              try {
+                await saveMessages(conversationId, finished);
+              } catch (error) {
+                console.error("Saving conversation failed:", error);
+              }
+            },
+          }
+        : undefined
+    );
   } catch (error) {
     console.error("Chat endpoint error:", error);
     res.status(500).json({
@@ -67,7 +361,111 @@ app.post("/chat", async (req: Request, res: Response) => {
   }
 });
 
-// Start the server
-app.listen(PORT, () => {
-  console.log(`Server is running on http://localhost:${PORT}`);
+interface CompletedToolCall {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+// Non-streaming chat endpoint for scripts: runs the same tool loop and returns
+// the answer, the tool calls and the token usage as plain JSON
+app.post("/chat/complete", async (req: Request, res: Response) => {
+  try {
+    const chat = await prepareChat(req);
+    if (!chat.success) {
+      return res.status(chat.status).json(chat.body);
+    }
+
+    const result = await generateText({
+      model: chat.model,
+      system: chat.system,
+      messages: chat.messages,
+      stopWhen: stepCountIs(10),
+      tools: chat.tools,
+    });
+
+    // Walk the steps in order, collecting the tool calls and building the
+    // same assistant message /chat would have stored
+    const toolCalls: CompletedToolCall[] = [];
+    const parts: UIMessage["parts"] = [];
+    for (const step of result.steps) {
+      parts.push({ type: "step-start" });
+      for (const part of step.content) {
+        if (part.type === "text" && part.text) {
+          parts.push({ type: "text", text: part.text, state: "done" });
+        } else if (part.type === "tool-call") {
+          const outcome = step.content.find(
+            (other) =>
+              (other.type === "tool-result" || other.type === "tool-error") &&
+              other.toolCallId === part.toolCallId
+          );
+          const call: CompletedToolCall = {
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            input: part.input,
+          };
+          if (outcome?.type === "tool-result") {
+            call.output = outcome.output;
+            parts.push({
+              type: `tool-${part.toolName}`,
+              toolCallId: part.toolCallId,
+              state: "output-available",
+              input: part.input,
+              output: outcome.output,
+            });
+          } else if (outcome?.type === "tool-error") {
+            call.error =
+              outcome.error instanceof Error
+                ? outcome.error.message
+                : String(outcome.error);
+            parts.push({
+              type: `tool-${part.toolName}`,
+              toolCallId: part.toolCallId,
+              state: "output-error",
+              input: part.input,
+              errorText: call.error,
+            });
+          }
+          toolCalls.push(call);
+        }
+      }
+    }
+
+    const assistantMessage: UIMessage = {
+      id: generateId(),
+      role: "assistant",
+      parts,
+    };
+    if (chat.conversationId !== undefined) {
+      await saveMessages(chat.conversationId, [
+        ...chat.uiMessages,
+        assistantMessage,
+      ]);
+    }
+
+    res.json({
+      id: assistantMessage.id,
+      conversationId: chat.conversationId ?? null,
+      text: result.text,
+      toolCalls,
+      finishReason: result.finishReason,
+      usage: result.totalUsage,
+    });
+  } catch (error) {
+    console.error("Chat complete endpoint error:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
 });
+
+// Start the server, unless imported by the tests
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  app.listen(PORT, () => {
+    console.log(`Server is running on http://localhost:${PORT}`);
+  });
+  startReminderScheduler();
+}
@@ -0,0 +1,89 @@
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+// A directory of JSON records, one file per id. Ids are UUIDs, so an id from
+// a URL can never name a file outside the directory
+export interface JsonStore<T extends { id: string }> {
+  get(id: string): Promise<T | null>;
+  list(): Promise<T[]>;
+  save(record: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+const ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Records live under the directory named by `envVar`, or ./data/<name>. The
+// variable is read on every call so tests can point it at a temp directory
+export function createJsonStore<T extends { id: string }>(
+  envVar: string,
+  name: string
+): JsonStore<T> {
+  const storeDir = () =>
+    process.env[envVar] || path.join(process.cwd(), "data", name);
+  const recordPath = (id: string) => path.join(storeDir(), `${id}.json`);
+  const isId = (id: string) => ID_PATTERN.test(id);
+
+  async function get(id: string): Promise<T | null> {
+    if (!isId(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await readFile(recordPath(id), "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    get,
+
+    async list() {
+      let files: string[];
+      try {
+        files = await readdir(storeDir());
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        throw error;
+      }
+
+      const records = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => get(path.basename(file, ".json")))
+      );
+      return records.filter((record) => record !== null);
+    },
+
+    async save(record) {
+      await mkdir(storeDir(), { recursive: true });
+      // Write to a temporary file first so a crash never leaves half a record.
+      // Each save gets its own, so two saves of one record can't collide
+      const target = recordPath(record.id);
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await writeFile(temp, JSON.stringify(record, null, 2));
+      await rename(temp, target);
+    },
+
+    async delete(id) {
+      if (!(await get(id))) {
+        return false;
+      }
+      await rm(recordPath(id));
+      return true;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+// Response languages. "translit" is English with Ashkenazi transliterations
+// of Hebrew terms (Shabbos, Sukkos, Shavuos)
+export const LANGUAGES = ["en", "he", "yi", "translit"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+// The web chat always answered in Yiddish before the language was selectable,
+// so it keeps that default
+export const CHAT_DEFAULT_LANGUAGE: Language = "yi";
+
+export const languageSchema = z
+  .enum(LANGUAGES)
+  .describe(
+    "Response language: 'en' (English), 'he' (Hebrew), 'yi' (Yiddish) or 'translit' (English with Ashkenazi transliterations)"
+  );
+
+// hebcal has no Yiddish locale, and Yiddish spells holiday names the Hebrew
+// way, so both use the Hebrew titles (without nikud, as they're read in chat)
+const HEBCAL_LOCALES: Record<Language, string> = {
+  en: "en",
+  he: "he-x-NoNikud",
+  yi: "he-x-NoNikud",
+  translit: "ashkenazi",
+};
+
+export function hebcalLocale(language: Language = DEFAULT_LANGUAGE): string {
+  return HEBCAL_LOCALES[language];
+}
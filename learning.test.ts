@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { HDate, months } from "@hebcal/core";
+import { dailyLearning } from "./learning.ts";
+
+function on(year: number, month: number, day: number) {
+  return new HDate(new Date(year, month - 1, day));
+}
+
+describe("dailyLearning", () => {
+  it("starts the 14th Daf Yomi cycle on 5 January 2020", () => {
+    const [daf] = dailyLearning(on(2020, 1, 5), "en", ["dafYomi"]);
+
+    expect(daf).toEqual({
+      schedule: "dafYomi",
+      name: "Daf Yomi",
+      reading: "Berachot 2",
+      cycle: 14,
+      dayInCycle: 1,
+      cycleLength: 2711,
+    });
+    expect(dailyLearning(on(2020, 1, 4), "en", ["dafYomi"])[0]).toMatchObject({
+      cycle: 13,
+      dayInCycle: 2711,
+    });
+  });
+
+  it("counts Yerushalmi Yomi cycles across the days it skips", () => {
+    const [start] = dailyLearning(on(2022, 11, 14), "en", ["yerushalmiYomi"]);
+    const [end] = dailyLearning(on(2022, 11, 13), "en", ["yerushalmiYomi"]);
+
+    expect(start).toMatchObject({ cycle: 11, dayInCycle: 1 });
+    expect(end).toMatchObject({ cycle: 10, dayInCycle: end.cycleLength });
+    // No daf on Yom Kippur
+    expect(
+      dailyLearning(new HDate(10, months.TISHREI, 5786)).map(
+        (entry) => entry.schedule
+      )
+    ).not.toContain("yerushalmiYomi");
+  });
+
+  it("reads in Hebrew and leaves out schedules that hadn't begun", () => {
+    const [daf] = dailyLearning(on(2025, 10, 19), "he-x-NoNikud", ["dafYomi"]);
+
+    expect(daf.reading).toBe("זבחים דף ל״ה");
+    expect(
+      dailyLearning(on(1930, 1, 1)).map((entry) => entry.schedule)
+    ).toEqual(["dafYomi", "chofetzChaim"]);
+  });
+});
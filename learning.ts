@@ -0,0 +1,144 @@
+// Registers the learning schedules with hebcal's DailyLearning
+import "@hebcal/learning";
+import { DailyLearning, HDate, greg, months } from "@hebcal/core";
+import { vilna, yerushalmiYomi } from "@hebcal/learning";
+import { type LearningEntry, LEARNING_SCHEDULES } from "./schemas.ts";
+
+export type LearningSchedule = (typeof LEARNING_SCHEDULES)[number];
+
+interface Cycle {
+  cycle: number | null;
+  // 0-based here; reported 1-based
+  day: number;
+  length: number;
+}
+
+interface ScheduleInfo {
+  name: string;
+  // hebcal's DailyLearning calendar
+  calendar: string;
+  cycle: (hd: HDate) => Cycle;
+}
+
+// Schedules that start a new cycle every `length` days from `start`
+function fixedCycle(start: Date, length: number, first = 1) {
+  const startAbs = greg.greg2abs(start);
+  return (hd: HDate): Cycle => ({
+    cycle: first + Math.floor((hd.abs() - startAbs) / length),
+    day: (hd.abs() - startAbs) % length,
+    length,
+  });
+}
+
+// Daf Yomi began in 1923. From the 8th cycle (1975), with a longer Shekalim,
+// a cycle is 2711 days instead of 2702
+const dafYomiOld = fixedCycle(new Date(1923, 8, 11), 2702);
+const dafYomiNew = fixedCycle(new Date(1975, 5, 24), 2711, 8);
+const DAF_YOMI_CYCLE_8 = greg.greg2abs(new Date(1975, 5, 24));
+
+const YERUSHALMI_DAPIM = vilna.shas.reduce((sum, [, dapim]) => sum + dapim, 0);
+
+// Yerushalmi Yomi skips Yom Kippur and Tisha B'Av, so cycles aren't a fixed
+// number of days. The daf gives the place in the cycle; the cycle is the
+// nearest whole number of cycles back to its start, counting the two days a
+// year without a daf
+function yerushalmiCycle(hd: HDate): Cycle {
+  const reading = yerushalmiYomi(hd, vilna);
+  if (!reading) {
+    throw new Error(`No Yerushalmi Yomi on ${hd}`);
+  }
+  let day = reading.blatt - 1;
+  for (const [tractate, dapim] of vilna.shas) {
+    if (tractate === reading.name) {
+      break;
+    }
+    day += dapim;
+  }
+  const daysPerCycle = (YERUSHALMI_DAPIM * 367) / 365;
+  return {
+    cycle: 1 + Math.round((hd.abs() - day - vilna.startAbs) / daysPerCycle),
+    day,
+    length: YERUSHALMI_DAPIM,
+  };
+}
+
+const SCHEDULES: Record<LearningSchedule, ScheduleInfo> = {
+  dafYomi: {
+    name: "Daf Yomi",
+    calendar: "dafYomi",
+    cycle: (hd) =>
+      hd.abs() >= DAF_YOMI_CYCLE_8 ? dafYomiNew(hd) : dafYomiOld(hd),
+  },
+  yerushalmiYomi: {
+    name: "Yerushalmi Yomi",
+    calendar: "yerushalmi-vilna",
+    cycle: yerushalmiCycle,
+  },
+  mishnaYomi: {
+    name: "Mishna Yomis",
+    calendar: "mishnaYomi",
+    // 4192 mishnayot, two a day
+    cycle: fixedCycle(new Date(1947, 4, 20), 2096),
+  },
+  nachYomi: {
+    name: "Nach Yomi",
+    calendar: "nachYomi",
+    cycle: fixedCycle(new Date(2007, 10, 1), 742),
+  },
+  rambam1: {
+    name: "Rambam (1 chapter)",
+    calendar: "rambam1",
+    cycle: fixedCycle(new Date(1984, 3, 29), 1017),
+  },
+  rambam3: {
+    name: "Rambam (3 chapters)",
+    calendar: "rambam3",
+    cycle: fixedCycle(new Date(1984, 3, 29), 339),
+  },
+  chofetzChaim: {
+    name: "Chofetz Chaim",
+    calendar: "chofetzChaim",
+    // The same readings on the same Hebrew dates every year
+    cycle: (hd) => {
+      const roshHashana = new HDate(1, months.TISHREI, hd.getFullYear());
+      return {
+        cycle: null,
+        day: hd.abs() - roshHashana.abs(),
+        length: HDate.daysInYear(hd.getFullYear()),
+      };
+    },
+  },
+};
+
+// The day's reading in each schedule, leaving out schedules that hadn't
+// begun yet and days without one (Yerushalmi Yomi on Yom Kippur)
+export function dailyLearning(
+  hd: HDate,
+  locale = "en",
+  schedules: readonly LearningSchedule[] = LEARNING_SCHEDULES
+): LearningEntry[] {
+  const entries: LearningEntry[] = [];
+  for (const schedule of schedules) {
+    const info = SCHEDULES[schedule];
+    let event;
+    try {
+      event = DailyLearning.lookup(info.calendar, hd, false);
+    } catch {
+      // Before the schedule's first cycle
+      continue;
+    }
+    if (!event) {
+      continue;
+    }
+    const cycle = info.cycle(hd);
+    entries.push({
+      schedule,
+      name: info.name,
+      reading: event.renderBrief(locale),
+      cycle: cycle.cycle,
+      dayInCycle: cycle.day + 1,
+      cycleLength: cycle.length,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,274 @@
+import { z } from "zod";
+import { Location } from "@hebcal/core";
+
+// City names known to Location.lookup() (hebcal's built-in "classic cities")
+const KNOWN_CITIES = [
+  "Ashdod",
+  "Atlanta",
+  "Austin",
+  "Baghdad",
+  "Beer Sheva",
+  "Berlin",
+  "Baltimore",
+  "Bogota",
+  "Boston",
+  "Budapest",
+  "Buenos Aires",
+  "Buffalo",
+  "Chicago",
+  "Cincinnati",
+  "Cleveland",
+  "Dallas",
+  "Denver",
+  "Detroit",
+  "Eilat",
+  "Gibraltar",
+  "Haifa",
+  "Hawaii",
+  "Helsinki",
+  "Houston",
+  "Jerusalem",
+  "Johannesburg",
+  "Kiev",
+  "La Paz",
+  "Livingston",
+  "Las Vegas",
+  "London",
+  "Los Angeles",
+  "Marseilles",
+  "Miami",
+  "Minneapolis",
+  "Melbourne",
+  "Mexico City",
+  "Montreal",
+  "Moscow",
+  "New York",
+  "Omaha",
+  "Ottawa",
+  "Panama City",
+  "Paris",
+  "Pawtucket",
+  "Petach Tikvah",
+  "Philadelphia",
+  "Phoenix",
+  "Pittsburgh",
+  "Providence",
+  "Portland",
+  "Saint Louis",
+  "Saint Petersburg",
+  "San Diego",
+  "San Francisco",
+  "Sao Paulo",
+  "Seattle",
+  "Sydney",
+  "Tel Aviv",
+  "Tiberias",
+  "Toronto",
+  "Vancouver",
+  "White Plains",
+  "Washington DC",
+  "Worcester",
+];
+
+export const DEFAULT_CITY = "New York";
+
+export const locationSchema = z
+  .object({
+    city: z
+      .string()
+      .optional()
+      .describe(
+        "City name (e.g., 'London', 'Jerusalem', 'Los Angeles'). Use either city, or latitude/longitude/timezone"
+      ),
+    latitude: z
+      .number()
+      .min(-90)
+      .max(90)
+      .optional()
+      .describe("Latitude in decimal degrees, north is positive"),
+    longitude: z
+      .number()
+      .min(-180)
+      .max(180)
+      .optional()
+      .describe("Longitude in decimal degrees, east is positive"),
+    timezone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA timezone for the coordinates (e.g., 'Europe/London', 'Asia/Jerusalem')"
+      ),
+    elevation: z
+      .number()
+      .optional()
+      .describe("Elevation in meters above sea level"),
+    name: z
+      .string()
+      .optional()
+      .describe("Optional display name for a coordinate-based location"),
+  })
+  // Half a coordinate would otherwise be ignored in favour of New York
+  .refine(
+    (location) =>
+      (location.latitude === undefined) === (location.longitude === undefined),
+    { message: "Give latitude and longitude together, with a timezone." }
+  )
+  .describe(
+    "Location used for candle lighting and zmanim. Defaults to New York when omitted"
+  );
+
+export type LocationInput = z.infer<typeof locationSchema>;
+
+// The user's own timezone, sent by the client alongside (or instead of) a
+// saved location
+export const timezoneSchema = z
+  .string()
+  .refine(isValidTimezone, {
+    message:
+      'Unknown timezone. Use an IANA timezone such as "America/New_York".',
+  })
+  .describe("IANA timezone of the user (e.g., 'America/Los_Angeles')");
+
+export type LocationResult =
+  | { success: true; location: Location }
+  | { success: false; error: string; suggestions?: string[] };
+
+export function resolveLocation(input?: LocationInput): LocationResult {
+  if (
+    !input ||
+    (!input.city &&
+      input.latitude === undefined &&
+      input.longitude === undefined)
+  ) {
+    return { success: true, location: Location.lookup(DEFAULT_CITY)! };
+  }
+
+  if (input.city) {
+    const location = Location.lookup(input.city.trim());
+    if (location) {
+      return { success: true, location };
+    }
+    return {
+      success: false,
+      error: `Unknown city "${input.city}". Use one of the suggested cities, or provide latitude, longitude and timezone instead.`,
+      suggestions: findCloseCities(input.city),
+    };
+  }
+
+  const { latitude, longitude, timezone, elevation, name } = input;
+  if (latitude === undefined || longitude === undefined || !timezone) {
+    return {
+      success: false,
+      error:
+        "A coordinate-based location needs latitude, longitude and timezone.",
+    };
+  }
+  if (!isValidTimezone(timezone)) {
+    return {
+      success: false,
+      error: `Unknown timezone "${timezone}". Use an IANA timezone such as "America/New_York".`,
+    };
+  }
+
+  const location = new Location(
+    latitude,
+    longitude,
+    timezone === "Asia/Jerusalem",
+    timezone,
+    name || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+    undefined,
+    undefined,
+    elevation
+  );
+  return { success: true, location };
+}
+
+// A known city in the timezone, so a user who only shared their timezone gets
+// sunset times from nearby rather than from New York
+export function cityForTimezone(timezone: string): Location | undefined {
+  // The city the timezone is named after comes first
+  const named = timezone.split("/").pop()!.replace(/_/g, " ");
+  const cities = [named, ...KNOWN_CITIES.filter((city) => city !== named)];
+  for (const city of cities) {
+    const location = Location.lookup(city);
+    if (location?.getTzid() === timezone) {
+      return location;
+    }
+  }
+  return undefined;
+}
+
+export function describeLocation(location: Location) {
+  return {
+    name: location.getName(),
+    latitude: location.getLatitude(),
+    longitude: location.getLongitude(),
+    timezone: location.getTzid(),
+    elevation: location.getElevation(),
+  };
+}
+
+// Israel vs. Diaspora schedule: an explicit choice wins, otherwise it follows
+// the location (New York, and so the Diaspora, when none is configured)
+export function resolveIsrael(
+  il: boolean | undefined,
+  input?: LocationInput
+): boolean {
+  if (il !== undefined) {
+    return il;
+  }
+  const resolved = resolveLocation(input);
+  return resolved.success ? resolved.location.getIsrael() : false;
+}
+
+export function describeSchedule(il: boolean) {
+  return il
+    ? "Israel schedule (one day of Yom Tov, Israeli Torah readings)"
+    : "Diaspora schedule (two days of Yom Tov, Diaspora Torah readings)";
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function findCloseCities(query: string): string[] {
+  const normalized = query.trim().toLowerCase();
+
+  return KNOWN_CITIES.map((city) => {
+    const name = city.toLowerCase();
+    // Substring matches ("york", "san") rank ahead of spelling mistakes
+    const distance =
+      name.includes(normalized) || normalized.includes(name)
+        ? 0
+        : levenshtein(normalized, name);
+    return { city, distance };
+  })
+    .filter(({ city, distance }) => distance <= Math.max(2, city.length / 3))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 5)
+    .map(({ city }) => city);
+}
+
+// The number of single-character edits that turn one string into the other
+export function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
@@ -0,0 +1,158 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import { customProvider } from "ai";
+
+// One model turn: the tool calls to make, or the text to answer with
+export interface MockStep {
+  toolCalls?: { toolName: string; input: Record<string, unknown> }[];
+  text?: string[];
+}
+
+// Scripts are selected with MODEL=mock:<name> (or "model" on a /chat request).
+// Tool calls run against the real aiTools, so only the model's side is canned.
+export const MOCK_SCRIPTS: Record<string, MockStep[]> = {
+  hello: [
+    { text: ["Hello! ", "Ask me anything ", "about the Jewish calendar."] },
+  ],
+  "yom-kippur": [
+    {
+      toolCalls: [
+        {
+          toolName: "findJewishHoliday",
+          input: { year: 2024, holidayName: "Yom Kippur" },
+        },
+      ],
+    },
+    { text: ["Yom Kippur 5785 ", "falls on ", "Saturday, October 12, 2024."] },
+  ],
+  "convert-date": [
+    {
+      toolCalls: [
+        {
+          toolName: "convertDate",
+          input: { inputDate: "15 Nisan 5785", fromCalendar: "hebrew" },
+        },
+      ],
+    },
+    { text: ["15 Nisan 5785 ", "is Sunday, April 13, 2025."] },
+  ],
+};
+
+class ScriptedLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2";
+  readonly provider = "mock";
+  readonly supportedUrls = {};
+
+  constructor(
+    readonly modelId: string,
+    private readonly steps: MockStep[]
+  ) {}
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const { content, finishReason } = this.respond(options);
+    return {
+      content,
+      finishReason,
+      usage: usageFor(options, content),
+      warnings: [],
+    };
+  }
+
+  async doStream(options: LanguageModelV2CallOptions) {
+    const { step, content, finishReason } = this.respond(options);
+    const parts: LanguageModelV2StreamPart[] = [
+      { type: "stream-start", warnings: [] },
+    ];
+    for (const item of content) {
+      if (item.type === "text") {
+        const id = `text-${parts.length}`;
+        parts.push({ type: "text-start", id });
+        for (const delta of step.text ?? []) {
+          parts.push({ type: "text-delta", id, delta });
+        }
+        parts.push({ type: "text-end", id });
+      } else {
+        parts.push(item as LanguageModelV2StreamPart);
+      }
+    }
+    parts.push({
+      type: "finish",
+      finishReason,
+      usage: usageFor(options, content),
+    });
+
+    return {
+      stream: new ReadableStream<LanguageModelV2StreamPart>({
+        start(controller) {
+          parts.forEach((part) => controller.enqueue(part));
+          controller.close();
+        },
+      }),
+    };
+  }
+
+  // The step to replay is the number of tool round-trips since the user's
+  // last message, so the same script works for every conversation turn
+  private currentStep(options: LanguageModelV2CallOptions): MockStep {
+    let toolTurns = 0;
+    for (
+      let i = options.prompt.length - 1;
+      i >= 0 && options.prompt[i].role !== "user";
+      i--
+    ) {
+      if (options.prompt[i].role === "tool") {
+        toolTurns++;
+      }
+    }
+    return this.steps[Math.min(toolTurns, this.steps.length - 1)];
+  }
+
+  private respond(options: LanguageModelV2CallOptions): {
+    step: MockStep;
+    content: LanguageModelV2Content[];
+    finishReason: LanguageModelV2FinishReason;
+  } {
+    const step = this.currentStep(options);
+    const content: LanguageModelV2Content[] = [];
+    if (step.text) {
+      content.push({ type: "text", text: step.text.join("") });
+    }
+    (step.toolCalls ?? []).forEach((call, index) => {
+      content.push({
+        type: "tool-call",
+        toolCallId: `call-${options.prompt.length}-${index}`,
+        toolName: call.toolName,
+        input: JSON.stringify(call.input),
+      });
+    });
+    return {
+      step,
+      content,
+      finishReason: step.toolCalls?.length ? "tool-calls" : "stop",
+    };
+  }
+}
+
+// Rough but deterministic token counts
+function usageFor(
+  options: LanguageModelV2CallOptions,
+  content: LanguageModelV2Content[]
+) {
+  const inputTokens = options.prompt.length * 10;
+  const outputTokens = content.length * 5;
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+export const mockProvider = customProvider({
+  languageModels: Object.fromEntries(
+    Object.entries(MOCK_SCRIPTS).map(([name, steps]) => [
+      name,
+      new ScriptedLanguageModel(name, steps),
+    ])
+  ),
+});
@@ -0,0 +1,87 @@
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { type LanguageModel, createProviderRegistry } from "ai";
+import { mockProvider } from "./mock-model.ts";
+
+// Model ids are "<provider>:<model>", e.g. "google:gemini-2.0-flash" or "local:llama3.1"
+export const DEFAULT_MODEL = "google:gemini-2.0-flash";
+
+export const PROVIDERS = ["google", "openai", "local", "mock"] as const;
+
+export type ModelResult =
+  | {
+      success: true;
+      model: LanguageModel;
+      id: string;
+      provider: string;
+      modelId: string;
+    }
+  | { success: false; error: string };
+
+let registry: ReturnType<typeof createRegistry> | undefined;
+
+// Built on first use so that .env has been loaded by then
+function createRegistry() {
+  return createProviderRegistry({
+    google,
+    // Any OpenAI-compatible API (OpenAI itself, OpenRouter, Together, vLLM...)
+    openai: createOpenAICompatible({
+      name: "openai",
+      baseURL:
+        process.env.OPENAI_COMPATIBLE_BASE_URL || "https://api.openai.com/v1",
+      apiKey:
+        process.env.OPENAI_COMPATIBLE_API_KEY || process.env.OPENAI_API_KEY,
+    }),
+    // A local OpenAI-compatible server, Ollama by default
+    local: createOpenAICompatible({
+      name: "local",
+      baseURL: process.env.LOCAL_MODEL_BASE_URL || "http://localhost:11434/v1",
+      apiKey: process.env.LOCAL_MODEL_API_KEY,
+    }),
+    // Scripted offline model for tests and demos, see mock-model.ts
+    mock: mockProvider,
+  });
+}
+
+// The model used when a request doesn't pick one: MODEL from the environment,
+// falling back to DEFAULT_MODEL
+export function defaultModelId(): string {
+  return process.env.MODEL || DEFAULT_MODEL;
+}
+
+export function resolveModel(id: string = defaultModelId()): ModelResult {
+  const separator = id.indexOf(":");
+  const provider = id.slice(0, separator);
+  const modelId = id.slice(separator + 1);
+  if (separator <= 0 || !modelId) {
+    return {
+      success: false,
+      error: `Invalid model "${id}". Use "<provider>:<model>", e.g. "${DEFAULT_MODEL}".`,
+    };
+  }
+  if (!(PROVIDERS as readonly string[]).includes(provider)) {
+    return {
+      success: false,
+      error: `Unknown model provider "${provider}". Available providers: ${PROVIDERS.join(", ")}.`,
+    };
+  }
+
+  registry ??= createRegistry();
+  try {
+    return {
+      success: true,
+      model: registry.languageModel(
+        id as `${(typeof PROVIDERS)[number]}:${string}`
+      ),
+      id,
+      provider,
+      modelId,
+    };
+  } catch (error) {
+    // e.g. an unknown mock script
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `Unknown model "${id}".`,
+    };
+  }
+}
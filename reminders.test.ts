@@ -0,0 +1,220 @@
+import dns from "node:dns";
+import { mkdtemp, rm } from "node:fs/promises";
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  createReminder,
+  deleteReminder,
+  deliverNotification,
+  dueNotification,
+  getReminder,
+  isPrivateHost,
+  reminderInputSchema,
+  sendDueReminders,
+  startReminderScheduler,
+} from "./reminders.ts";
+
+let remindersDir: string;
+
+beforeAll(async () => {
+  remindersDir = await mkdtemp(path.join(tmpdir(), "reminders-"));
+  process.env.REMINDERS_DIR = remindersDir;
+});
+
+afterAll(async () => {
+  await rm(remindersDir, { recursive: true, force: true });
+});
+
+// Evening of 2025-04-20 in Jerusalem, before and after tzeit (about 19:49)
+const BEFORE_TZEIT = new Date("2025-04-20T16:30:00Z");
+const AFTER_TZEIT = new Date("2025-04-20T17:00:00Z");
+
+describe("dueNotification", () => {
+  const reminder = {
+    id: "00000000-0000-4000-8000-000000000000",
+    createdAt: "2025-04-01T00:00:00.000Z",
+    location: { city: "Jerusalem" },
+  };
+
+  it("is due once tzeit has passed at the location", () => {
+    expect(dueNotification(reminder, BEFORE_TZEIT)).toBeNull();
+
+    const notification = dueNotification(reminder, AFTER_TZEIT);
+    expect(notification).toMatchObject({
+      type: "omer",
+      date: "2025-04-20",
+      title: "Omer day 8",
+      body: "Today is 8 days, which is 1 week and 1 day of the Omer",
+    });
+    expect(
+      dueNotification({ ...reminder, language: "he" }, AFTER_TZEIT)?.body
+    ).toContain("שְׁמוֹנָה");
+  });
+
+  it("is not due twice in one evening, or outside the Omer", () => {
+    expect(
+      dueNotification({ ...reminder, lastSent: "2025-04-20" }, AFTER_TZEIT)
+    ).toBeNull();
+    expect(
+      dueNotification(reminder, new Date("2025-10-19T19:00:00Z"))
+    ).toBeNull();
+  });
+});
+
+describe("sendDueReminders", () => {
+  it("delivers each due reminder once and records it", async () => {
+    const reminder = await createReminder({
+      location: { city: "Jerusalem" },
+      webhookUrl: "https://example.com/omer",
+    });
+    const deliver = vi.fn(async () => true);
+
+    expect(await sendDueReminders(BEFORE_TZEIT, deliver)).toBe(0);
+    expect(await sendDueReminders(AFTER_TZEIT, deliver)).toBe(1);
+    expect(await sendDueReminders(AFTER_TZEIT, deliver)).toBe(0);
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect((await getReminder(reminder.id))?.lastSent).toBe("2025-04-20");
+
+    expect(await deleteReminder(reminder.id)).toBe(true);
+    expect(await getReminder(reminder.id)).toBeNull();
+  });
+
+  it("retries a reminder that could not be delivered", async () => {
+    const reminder = await createReminder({ location: { city: "Jerusalem" } });
+    const deliver = vi.fn(async () => false);
+
+    expect(await sendDueReminders(AFTER_TZEIT, deliver)).toBe(0);
+    expect(await sendDueReminders(AFTER_TZEIT, deliver)).toBe(0);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    await deleteReminder(reminder.id);
+  });
+});
+
+describe("startReminderScheduler", () => {
+  it("skips a check while the last one is still running", async () => {
+    vi.useFakeTimers();
+    let finish = () => {};
+    const check = vi.fn(
+      () =>
+        new Promise<number>((resolve) => {
+          finish = () => resolve(0);
+        })
+    );
+    const timer = startReminderScheduler(1000, check);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(check).toHaveBeenCalledTimes(1);
+    finish();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(check).toHaveBeenCalledTimes(2);
+
+    clearInterval(timer);
+    vi.useRealTimers();
+  });
+});
+
+describe("reminderInputSchema", () => {
+  it("rejects webhooks on loopback and private addresses", () => {
+    const accepts = (webhookUrl: string) =>
+      reminderInputSchema.safeParse({
+        location: { city: "London" },
+        webhookUrl,
+      }).success;
+
+    expect(accepts("https://example.com/omer")).toBe(true);
+    expect(accepts("http://93.184.216.34/omer")).toBe(true);
+    for (const url of [
+      "http://localhost:3000/omer",
+      "http://127.0.0.1/omer",
+      "http://2130706433/omer",
+      "http://10.1.2.3/omer",
+      "http://172.20.0.1/omer",
+      "http://192.168.1.1/omer",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/omer",
+      "http://[::ffff:127.0.0.1]/omer",
+      "http://[fd00::1]/omer",
+    ]) {
+      expect(accepts(url), url).toBe(false);
+    }
+    expect(isPrivateHost("api.localhost")).toBe(true);
+  });
+});
+
+// Answers every DNS lookup of a webhook host with one address
+function resolveTo(address: string) {
+  vi.spyOn(dns.promises, "lookup").mockImplementation((async () => [
+    { address, family: 4 },
+  ]) as unknown as typeof dns.promises.lookup);
+}
+
+describe("deliverNotification", () => {
+  const reminder = {
+    id: "00000000-0000-4000-8000-000000000001",
+    createdAt: "2025-04-01T00:00:00.000Z",
+    location: { city: "Jerusalem" },
+  };
+  const notification = dueNotification(reminder, AFTER_TZEIT)!;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("refuses a webhook whose name resolves to a private address", async () => {
+    resolveTo("127.0.0.1");
+    const fetch = vi.spyOn(globalThis, "fetch");
+
+    await expect(
+      deliverNotification(
+        { ...reminder, webhookUrl: "http://localtest.me/omer" },
+        notification
+      )
+    ).rejects.toThrow("resolves to the private address 127.0.0.1");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("does not follow redirects", async () => {
+    // A public webhook that redirects inward. The host check sees a public
+    // address, while the connection goes to a local server sending the 302
+    const requests: string[] = [];
+    const server = await new Promise<Server>((resolve) => {
+      const listening = createServer((req, res) => {
+        requests.push(req.url ?? "");
+        res.writeHead(302, { Location: "/internal" }).end();
+      }).listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    resolveTo("93.184.216.34");
+    vi.spyOn(dns, "lookup").mockImplementation(((
+      _host: string,
+      _options: object,
+      callback: (error: null, addresses: dns.LookupAddress[]) => void
+    ) =>
+      callback(null, [
+        { address: "127.0.0.1", family: 4 },
+      ])) as unknown as typeof dns.lookup);
+
+    try {
+      await expect(
+        deliverNotification(
+          { ...reminder, webhookUrl: `http://webhook.test:${port}/omer` },
+          notification
+        )
+      ).rejects.toThrow();
+      expect(requests).toEqual(["/omer"]);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { randomUUID } from "node:crypto";
+import dns from "node:dns";
+import { EventEmitter } from "node:events";
+import { BlockList, isIP } from "node:net";
+import { z } from "zod";
+import { type LocationInput, locationSchema } from "./location.ts";
+import { type Language, languageSchema } from "./language.ts";
+import { createJsonStore } from "./json-store.ts";
+import { getOmer } from "./tools.ts";
+import type { OmerCount } from "./schemas.ts";
+
+// A nightly Omer count reminder. Webhook reminders are POSTed to their URL;
+// browser reminders go to whoever is listening on /reminders/:id/events
+export interface Reminder {
+  id: string;
+  createdAt: string;
+  location: LocationInput;
+  language?: Language;
+  webhookUrl?: string;
+  // The civil date, at the location, of the last evening that was sent
+  lastSent?: string;
+}
+
+// What each reminder receives at tzeit
+export interface OmerNotification {
+  type: "omer";
+  reminderId: string;
+  // The evening's civil date and nightfall at the location
+  date: string;
+  tzeit: string;
+  title: string;
+  body: string;
+  count: OmerCount;
+  blessing: string;
+}
+
+// Addresses a webhook may not point at, so a reminder can't be used to make
+// the server POST into its own network
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Loopback, private and link-local hosts, written as an address or as
+// localhost. IPv4-mapped IPv6 addresses count as their IPv4 address
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  const version = isIP(host);
+  return (
+    version !== 0 &&
+    PRIVATE_ADDRESSES.check(host, version === 6 ? "ipv6" : "ipv4")
+  );
+}
+
+// A public name can still resolve to a private address, so the host is looked
+// up again before every delivery rather than trusted from when it was saved
+export async function checkWebhookHost(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (isPrivateHost(host)) {
+    throw new Error(`Webhook host ${host} is a loopback or private address`);
+  }
+  if (isIP(host) !== 0) {
+    return;
+  }
+  const addresses = await dns.promises.lookup(host, { all: true });
+  const blocked = addresses.find(({ address, family }) =>
+    PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  if (blocked) {
+    throw new Error(
+      `Webhook host ${host} resolves to the private address ${blocked.address}`
+    );
+  }
+}
+
+export const reminderInputSchema = z.object({
+  location: locationSchema,
+  language: languageSchema.optional(),
+  webhookUrl: z
+    .url({ protocol: /^https?$/ })
+    .refine((url) => !isPrivateHost(new URL(url).hostname), {
+      message: "Webhooks can't point at loopback or private addresses",
+    })
+    .optional()
+    .describe("Where to POST the count. Omit for browser notifications"),
+});
+
+export type ReminderInput = z.infer<typeof reminderInputSchema>;
+
+// Browser reminders are emitted under their id
+export const reminderEvents = new EventEmitter();
+reminderEvents.setMaxListeners(0);
+
+// How often the scheduler looks for reminders whose tzeit has passed
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// How long a webhook has to answer before it is retried on a later check
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// One JSON file per reminder, under REMINDERS_DIR (./data/reminders by default)
+const store = createJsonStore<Reminder>("REMINDERS_DIR", "reminders");
+
+export async function createReminder(input: ReminderInput): Promise<Reminder> {
+  const reminder: Reminder = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...input,
+  };
+  await store.save(reminder);
+  return reminder;
+}
+
+export async function getReminder(id: string): Promise<Reminder | null> {
+  return store.get(id);
+}
+
+export async function listReminders(): Promise<Reminder[]> {
+  return store.list();
+}
+
+export async function deleteReminder(id: string): Promise<boolean> {
+  return store.delete(id);
+}
+
+// The notification a reminder is owed at `now`: during the Omer, once tzeit
+// has passed at its location, unless this evening's was already sent
+export function dueNotification(
+  reminder: Reminder,
+  now = new Date()
+): OmerNotification | null {
+  const omer = getOmer(undefined, reminder.location, { now });
+  if (
+    !omer.success ||
+    !omer.tonight ||
+    !omer.tzeit ||
+    !omer.blessing ||
+    now < new Date(omer.tzeit) ||
+    reminder.lastSent === omer.date
+  ) {
+    return null;
+  }
+  const hebrew = reminder.language === "he" || reminder.language === "yi";
+  return {
+    type: "omer",
+    reminderId: reminder.id,
+    date: omer.date,
+    tzeit: omer.tzeit,
+    title: hebrew
+      ? `ספירת העומר: ${omer.tonight.day}`
+      : `Omer day ${omer.tonight.day}`,
+    body: hebrew ? omer.tonight.text.he : omer.tonight.text.en,
+    count: omer.tonight,
+    blessing: omer.blessing,
+  };
+}
+
+// Sends a notification, returning false when a browser reminder has no one
+// listening so it is tried again on the next check
+export async function deliverNotification(
+  reminder: Reminder,
+  notification: OmerNotification
+): Promise<boolean> {
+  if (!reminder.webhookUrl) {
+    return reminderEvents.emit(reminder.id, notification);
+  }
+  await checkWebhookHost(reminder.webhookUrl);
+  // A redirect could lead anywhere, including the addresses checked above
+  const response = await fetch(reminder.webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(notification),
+    redirect: "error",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status}`);
+  }
+  return true;
+}
+
+// Sends every notification that is due and records it as sent. A failing
+// reminder is logged and retried on the next check. Returns how many were sent
+export async function sendDueReminders(
+  now = new Date(),
+  deliver = deliverNotification
+): Promise<number> {
+  let sent = 0;
+  for (const reminder of await listReminders()) {
+    const notification = dueNotification(reminder, now);
+    if (!notification) {
+      continue;
+    }
+    try {
+      if (await deliver(reminder, notification)) {
+        await store.save({ ...reminder, lastSent: notification.date });
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Omer reminder ${reminder.id} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+// Checks for due reminders every minute, without keeping the process alive.
+// A check still waiting on slow webhooks makes the next one skip, since a
+// reminder is only marked as sent once it has been delivered
+export function startReminderScheduler(
+  intervalMs = CHECK_INTERVAL_MS,
+  check = sendDueReminders
+): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    check()
+      .catch((error) => console.error("Omer reminder check failed:", error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  ToolOutputError,
+  checkToolOutput,
+  convertDateResultSchema,
+  findJewishHolidayResultSchema,
+} from "./schemas.ts";
+import { createAiTools } from "./tools.ts";
+
+describe("tool output schemas", () => {
+  it("accept what the tools return", async () => {
+    const tools = createAiTools({ location: { city: "London" } });
+
+    const holiday = await tools.findJewishHoliday.execute({
+      year: 2024,
+      holidayName: "Yom Kippur",
+    });
+    expect(findJewishHolidayResultSchema.safeParse(holiday).success).toBe(true);
+
+    const converted = await tools.convertDate.execute({
+      inputDate: "not a date",
+      fromCalendar: "gregorian",
+    });
+    expect(converted.success).toBe(false);
+    expect(convertDateResultSchema.safeParse(converted).success).toBe(true);
+  });
+
+  it("turn a malformed result into a ToolOutputError", () => {
+    const malformed = { success: true, inputDate: "2024-10-12" };
+
+    let caught: unknown;
+    try {
+      checkToolOutput("convertDate", convertDateResultSchema, malformed);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ToolOutputError);
+    const error = caught as ToolOutputError;
+    expect(error.toolName).toBe("convertDate");
+    expect(error.issues.length).toBeGreaterThan(0);
+    expect(error.message).toContain("convertDate returned an invalid result");
+  });
+});
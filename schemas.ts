@@ -0,0 +1,587 @@
+import { z } from "zod";
+
+// Output schemas for every tool result. Tools validate what they return against
+// these, and the inferred types are shared with the frontend, so both sides
+// agree on the shape the model and the UI receive.
+// This module only depends on zod, so the frontend can import its types.
+
+const rangeSchema = z.object({ start: z.string(), end: z.string() });
+
+export const HOLIDAY_CATEGORIES = [
+  "major",
+  "minor",
+  "fast",
+  "roshchodesh",
+  "modern",
+  "shabbat",
+] as const;
+
+// The daily learning schedules, in the order they are listed
+export const LEARNING_SCHEDULES = [
+  "dafYomi",
+  "yerushalmiYomi",
+  "mishnaYomi",
+  "nachYomi",
+  "rambam1",
+  "rambam3",
+  "chofetzChaim",
+] as const;
+
+export const learningEntrySchema = z.object({
+  schedule: z.enum(LEARNING_SCHEDULES),
+  name: z.string(),
+  // "Zevachim 35", "Menachot 13:7-8"
+  reading: z.string(),
+  // null for Chofetz Chaim, which follows the Hebrew year
+  cycle: z.number().nullable(),
+  // 1-based. Yerushalmi Yomi counts dapim, since it skips Yom Kippur and
+  // Tisha B'Av
+  dayInCycle: z.number(),
+  cycleLength: z.number(),
+});
+
+export const locationDescriptionSchema = z.object({
+  name: z.string().nullable(),
+  latitude: z.number(),
+  longitude: z.number(),
+  timezone: z.string(),
+  elevation: z.number(),
+});
+
+// Failures that come from the input (a bad date, an unknown city...)
+const failureSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  suggestions: z.array(z.string()).optional(),
+});
+
+export const holidayDetailsSchema = z.object({
+  name: z.string(),
+  gregorianDate: z.string(),
+  hebrewDate: z.string(),
+  hebrewYear: z.number(),
+  category: z.string(),
+  description: z.string(),
+  url: z.string().nullable(),
+  memo: z.string().nullable(),
+  eventTime: z.string().optional(),
+  eventTimeStr: z.string().nullable().optional(),
+  fmtTime: z.string().nullable().optional(),
+  candleLightingTime: z.string().optional(),
+  havdalahTime: z.string().optional(),
+  havdalahMins: z.number().nullable().optional(),
+  fastBeginTime: z.string().optional(),
+  fastEndTime: z.string().optional(),
+  location: locationDescriptionSchema,
+  eventType: z.enum(["candle_lighting", "havdalah", "holiday"]).optional(),
+  flags: z.object({
+    isHoliday: z.boolean(),
+    isCandleLighting: z.boolean(),
+    isHavdalah: z.boolean(),
+    isRoshChodesh: z.boolean(),
+    isModernHoliday: z.boolean(),
+    isMinorHoliday: z.boolean(),
+    isMajorHoliday: z.boolean(),
+    isFast: z.boolean(),
+  }),
+});
+
+export const relatedZmanSchema = z.object({
+  name: z.string(),
+  gregorianDate: z.string(),
+  hebrewDate: z.string(),
+  category: z.string(),
+  description: z.string(),
+  time: z.string().optional(),
+  eventTime: z.string().optional(),
+  havdalahMins: z.number().optional(),
+});
+
+export const findJewishHolidayResultSchema = z.union([
+  z.object({
+    found: z.literal(true),
+    year: z.number().optional(),
+    calendar: z.enum(["gregorian", "hebrew"]),
+    range: rangeSchema,
+    il: z.boolean(),
+    schedule: z.string(),
+    searchTerm: z.string(),
+    // The holidays the search term was taken to mean, with the spelling that
+    // matched and how closely (1 is exact)
+    matches: z.array(
+      z.object({
+        name: z.string(),
+        matchedAlias: z.string(),
+        score: z.number(),
+      })
+    ),
+    holidays: z.array(holidayDetailsSchema),
+    relatedZmanim: z.array(relatedZmanSchema),
+    zmanimCount: z.number(),
+    location: locationDescriptionSchema,
+    locationNote: z.string(),
+  }),
+  // Bad input
+  z.object({
+    found: z.literal(false),
+    error: z.string(),
+    suggestions: z.array(z.string()).optional(),
+  }),
+  // Valid input, but no holiday by that name; the closest names instead
+  z.object({
+    found: z.literal(false),
+    message: z.string(),
+    suggestions: z.array(z.string()),
+  }),
+]);
+
+export const listJewishHolidaysResultSchema = z.union([
+  z.object({
+    year: z.number().optional(),
+    calendar: z.enum(["gregorian", "hebrew"]),
+    range: rangeSchema,
+    categories: z.array(z.enum(HOLIDAY_CATEGORIES)).nullable(),
+    il: z.boolean(),
+    schedule: z.string(),
+    totalHolidays: z.number(),
+    holidays: z.array(
+      z.object({
+        name: z.string(),
+        gregorianDate: z.string(),
+        isoDate: z.string(),
+        hebrewDate: z.string(),
+        category: z.string(),
+      })
+    ),
+  }),
+  z.object({ error: z.string() }),
+]);
+
+export const convertDateResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    inputDate: z.string(),
+    inputCalendar: z.enum(["gregorian", "hebrew"]),
+    outputCalendar: z.enum(["gregorian", "hebrew"]),
+    gregorianDate: z.object({
+      formatted: z.string(),
+      iso: z.string(),
+      dayOfWeek: z.string(),
+    }),
+    hebrewDate: z.object({
+      formatted: z.string(),
+      hebrewYear: z.number(),
+      hebrewMonth: z.string(),
+      hebrewDay: z.number(),
+      dayOfWeek: z.string(),
+      isLeapYear: z.boolean(),
+      daysInMonth: z.number(),
+    }),
+    additionalInfo: z.object({
+      julianDay: z.number(),
+      isRoshChodesh: z.boolean(),
+      season: z.string(),
+      // The parsha read on the Shabbat on or after the date (null on a holiday)
+      parsha: z.string().nullable(),
+      schedule: z.string(),
+      // That day's Daf Yomi, Mishna Yomis, Rambam...
+      dailyLearning: z.array(learningEntrySchema),
+    }),
+  }),
+  failureSchema,
+]);
+
+export const zmanimResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    date: z.string(),
+    hebrewDate: z.string(),
+    location: locationDescriptionSchema,
+    // ISO 8601 times with the location's UTC offset, null when the sun
+    // doesn't reach the angle that day (e.g. far north in summer)
+    zmanim: z.object({
+      alotHaShachar: z.string().nullable(),
+      misheyakir: z.string().nullable(),
+      sunrise: z.string().nullable(),
+      sofZmanShmaMGA: z.string().nullable(),
+      sofZmanShma: z.string().nullable(),
+      sofZmanTfillaMGA: z.string().nullable(),
+      sofZmanTfilla: z.string().nullable(),
+      chatzot: z.string().nullable(),
+      minchaGedola: z.string().nullable(),
+      minchaKetana: z.string().nullable(),
+      plagHaMincha: z.string().nullable(),
+      sunset: z.string().nullable(),
+      tzeit: z.string().nullable(),
+    }),
+    notes: z.record(z.string(), z.string()),
+  }),
+  failureSchema,
+]);
+
+export const todaysDateResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    // The current instant in UTC
+    now: z.string(),
+    timezone: z.string(),
+    // The same instant as local time, ISO 8601 with the UTC offset
+    localTime: z.string(),
+    // The local civil date
+    date: z.string(),
+    gregorianDate: z.object({
+      formatted: z.string(),
+      iso: z.string(),
+      dayOfWeek: z.string(),
+    }),
+    // Rolls over to the next day at sunset
+    hebrewDate: z.object({
+      formatted: z.string(),
+      hebrewYear: z.number(),
+      hebrewMonth: z.string(),
+      hebrewDay: z.number(),
+    }),
+    afterSunset: z.boolean(),
+    afterTzeit: z.boolean(),
+    sunset: z.string().nullable(),
+    tzeit: z.string().nullable(),
+    isShabbat: z.boolean(),
+    isYomTov: z.boolean(),
+    // Names of the Yom Tov in effect, if any
+    yomTov: z.array(z.string()),
+    location: locationDescriptionSchema,
+    schedule: z.string(),
+    note: z.string(),
+  }),
+  failureSchema,
+]);
+
+const dayDescriptionSchema = z.object({
+  iso: z.string(),
+  formatted: z.string(),
+  dayOfWeek: z.string(),
+  hebrewDate: z.string(),
+  hebrewYear: z.number(),
+});
+
+export const resolveDateResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    phrase: z.string(),
+    date: dayDescriptionSchema,
+    // The day the phrase was resolved from, in the user's timezone
+    today: dayDescriptionSchema,
+    timezone: z.string(),
+    // How the date was reached, e.g. "2 weeks before Pesach I (2025-04-13)"
+    explanation: z.string(),
+    // The parsha read on the Shabbat on or after the date
+    parsha: z.string().nullable(),
+    schedule: z.string(),
+  }),
+  failureSchema,
+]);
+
+const anniversaryDateSchema = z.object({
+  hebrewDate: z.string(),
+  hebrewYear: z.number(),
+  gregorianDate: z.string(),
+  iso: z.string(),
+  dayOfWeek: z.string(),
+  // Hebrew dates start the evening before
+  beginsEvening: z.string(),
+});
+
+const comingOfAgeSchema = anniversaryDateSchema.extend({
+  // The Shabbat on or after the date, and its parsha (null on a holiday)
+  shabbat: z.string(),
+  parsha: z.string().nullable(),
+});
+
+export const hebrewAnniversariesResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    type: z.enum(["yahrzeit", "birthday"]),
+    original: z.object({
+      gregorianDate: z.string(),
+      afterSunset: z.boolean(),
+      hebrewDate: z.string(),
+    }),
+    anniversaries: z.array(
+      anniversaryDateSchema.extend({
+        // Years since the original date
+        count: z.number(),
+      })
+    ),
+    // Only for birthdays: 13 for a boy, 12 for a girl
+    barMitzvah: comingOfAgeSchema.optional(),
+    batMitzvah: comingOfAgeSchema.optional(),
+    notes: z.array(z.string()),
+    schedule: z.string(),
+  }),
+  failureSchema,
+]);
+
+const readingSchema = z.object({
+  // "Exodus 30:11-31:17"
+  reading: z.string(),
+  verses: z.number().nullable(),
+  // Why it differs from the regular reading, e.g. "Shabbat Shekalim"
+  reason: z.string().nullable(),
+});
+
+export const parshaResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    range: rangeSchema,
+    il: z.boolean(),
+    schedule: z.string(),
+    readings: z.array(
+      z.object({
+        date: z.string(),
+        gregorianDate: z.string(),
+        hebrewDate: z.string(),
+        // "Parashat Vayakhel-Pekudei", or the holiday read instead
+        name: z.string(),
+        hebrewName: z.string(),
+        type: z.enum(["shabbat", "holiday"]),
+        // The parshiyot read, null when a holiday replaces them
+        parsha: z.array(z.string()).nullable(),
+        // Shekalim, Zachor, Parah, HaChodesh, HaGadol, Shuva...
+        specialShabbat: z.array(z.string()),
+        summary: z.string(),
+        // "1" to "7", then "maftir"
+        aliyot: z.array(readingSchema.extend({ aliyah: z.string() })),
+        maftir: readingSchema.nullable(),
+        haftarah: z.object({
+          ashkenazi: z.string(),
+          sephardi: z.string(),
+          reason: z.string().nullable(),
+        }),
+        note: z.string().nullable(),
+      })
+    ),
+  }),
+  failureSchema,
+]);
+
+export const shabbatTimesResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    range: rangeSchema,
+    location: locationDescriptionSchema,
+    il: z.boolean(),
+    schedule: z.string(),
+    // Havdalah minutes after sunset, or the sun's depression in degrees
+    havdalah: z.object({
+      minutes: z.number().nullable(),
+      degrees: z.number().nullable(),
+    }),
+    shabbatot: z.array(
+      z.object({
+        date: z.string(),
+        gregorianDate: z.string(),
+        hebrewDate: z.string(),
+        // ISO 8601 times with the location's UTC offset
+        candleLighting: z.string().nullable(),
+        // null when Yom Tov begins as Shabbat ends
+        havdalah: z.string().nullable(),
+        yomTovCandleLighting: z.string().nullable(),
+        parsha: z.string().nullable(),
+        specialShabbat: z.array(z.string()),
+        // Yom Tov, Chol HaMoed, Chanukah, Rosh Chodesh... on the Shabbat
+        holidays: z.array(z.string()),
+        isYomTov: z.boolean(),
+        // Shabbat Mevarchim: the month blessed, its molad, and the dates of
+        // Rosh Chodesh that week
+        mevarchim: z
+          .object({
+            name: z.string(),
+            month: z.string(),
+            molad: z.string().nullable(),
+            roshChodesh: z.array(z.string()),
+          })
+          .nullable(),
+        notes: z.array(z.string()),
+      })
+    ),
+  }),
+  failureSchema,
+]);
+
+const omerCountSchema = z.object({
+  day: z.number(),
+  // Day 10 is 1 week and 3 days
+  weeks: z.number(),
+  days: z.number(),
+  // The Hebrew date the count is for; it is said the evening before
+  hebrewDate: z.string(),
+  sefirah: z.object({
+    en: z.string(),
+    he: z.string(),
+    translit: z.string(),
+  }),
+  // "Today is 8 days, which is 1 week and 1 day of the Omer", and in Hebrew
+  text: z.object({ en: z.string(), he: z.string() }),
+});
+
+export const omerResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    date: z.string(),
+    gregorianDate: z.string(),
+    location: locationDescriptionSchema,
+    // Nightfall that evening, from when the count is said
+    tzeit: z.string().nullable(),
+    // Said this evening, and said last night. null outside the Omer
+    tonight: omerCountSchema.nullable(),
+    today: omerCountSchema.nullable(),
+    blessing: z.string().nullable(),
+    note: z.string(),
+  }),
+  failureSchema,
+]);
+
+const announcementSchema = z.object({
+  molad: z.string(),
+  // null for Tishrei, which has no Rosh Chodesh
+  roshChodesh: z.string().nullable(),
+});
+
+export const roshChodeshResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    location: locationDescriptionSchema,
+    months: z.array(
+      z.object({
+        month: z.string(),
+        hebrewMonth: z.string(),
+        year: z.number(),
+        // One day, or two when the month before has 30 days
+        roshChodesh: z.array(dayDescriptionSchema),
+        // As announced, in Jerusalem mean time, and as an ISO 8601 time at
+        // the location
+        molad: z.object({
+          dayOfWeek: z.string(),
+          hour: z.number(),
+          minutes: z.number(),
+          chalakim: z.number(),
+          time: z.string(),
+          text: z.string(),
+        }),
+        shabbatMevarchim: dayDescriptionSchema.nullable(),
+        // What is said on Shabbat Mevarchim
+        announcement: z.object({
+          he: announcementSchema,
+          yi: announcementSchema,
+        }),
+        // ISO 8601 times at the location
+        kiddushLevana: z.object({
+          fromThreeDays: z.string(),
+          fromSevenDays: z.string(),
+          untilHalfMonth: z.string(),
+          untilFifteenDays: z.string(),
+        }),
+      })
+    ),
+    note: z.string(),
+  }),
+  failureSchema,
+]);
+
+export const dailyLearningResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    range: rangeSchema,
+    days: z.array(
+      z.object({
+        date: z.string(),
+        gregorianDate: z.string(),
+        hebrewDate: z.string(),
+        learning: z.array(learningEntrySchema),
+      })
+    ),
+  }),
+  failureSchema,
+]);
+
+export const calendarFeedLinkResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    url: z.string(),
+    subscribeUrl: z.string().nullable(),
+    range: rangeSchema.nullable(),
+    note: z.string().optional(),
+    location: locationDescriptionSchema,
+  }),
+  failureSchema,
+]);
+
+export type LocationDescription = z.infer<typeof locationDescriptionSchema>;
+export type HolidayDetails = z.infer<typeof holidayDetailsSchema>;
+export type RelatedZman = z.infer<typeof relatedZmanSchema>;
+export type FindJewishHolidayResult = z.infer<
+  typeof findJewishHolidayResultSchema
+>;
+export type ListJewishHolidaysResult = z.infer<
+  typeof listJewishHolidaysResultSchema
+>;
+export type ConvertDateResult = z.infer<typeof convertDateResultSchema>;
+export type ZmanimResult = z.infer<typeof zmanimResultSchema>;
+export type TodaysDateResult = z.infer<typeof todaysDateResultSchema>;
+export type DayDescription = z.infer<typeof dayDescriptionSchema>;
+export type ResolveDateResult = z.infer<typeof resolveDateResultSchema>;
+export type HebrewAnniversariesResult = z.infer<
+  typeof hebrewAnniversariesResultSchema
+>;
+export type ParshaResult = z.infer<typeof parshaResultSchema>;
+export type ShabbatTimesResult = z.infer<typeof shabbatTimesResultSchema>;
+export type OmerCount = z.infer<typeof omerCountSchema>;
+export type OmerResult = z.infer<typeof omerResultSchema>;
+export type RoshChodeshResult = z.infer<typeof roshChodeshResultSchema>;
+export type LearningEntry = z.infer<typeof learningEntrySchema>;
+export type DailyLearningResult = z.infer<typeof dailyLearningResultSchema>;
+export type CalendarFeedLinkResult = z.infer<
+  typeof calendarFeedLinkResultSchema
+>;
+
+// A saved conversation without its messages, as GET /api/conversations lists it
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// Thrown when a tool builds a result that doesn't match its schema. The AI
+// SDK reports it to the model and the UI as a tool error
+export class ToolOutputError extends Error {
+  readonly toolName: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(toolName: string, issues: z.core.$ZodIssue[]) {
+    super(
+      `${toolName} returned an invalid result: ${issues
+        .map(
+          (issue) =>
+            `${issue.path.map(String).join(".") || "result"}: ${issue.message}`
+        )
+        .join("; ")}`
+    );
+    this.name = "ToolOutputError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+export function checkToolOutput<T>(
+  toolName: string,
+  schema: z.ZodType<T>,
+  result: unknown
+): T {
+  const parsed = schema.safeParse(result);
+  if (!parsed.success) {
+    throw new ToolOutputError(toolName, parsed.error.issues);
+  }
+  return parsed.data;
+}
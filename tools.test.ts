@@ -0,0 +1,871 @@
+import { describe, expect, it } from "vitest";
+import { HebrewCalendar } from "@hebcal/core";
+import {
+  calendarFeedLink,
+  convertDate,
+  findJewishHoliday,
+  getDailyLearning,
+  getHebrewAnniversaries,
+  getOmer,
+  getParsha,
+  getRoshChodesh,
+  getShabbatTimes,
+  getZmanim,
+  listJewishHolidays,
+  resolveDate,
+  toIsoDate,
+  todaysDate,
+} from "./tools.ts";
+import type {
+  FindJewishHolidayResult,
+  ListJewishHolidaysResult,
+} from "./schemas.ts";
+
+// Tool results are unions of a success and a failure. These narrow them,
+// failing the test with what the tool returned if it is the other one
+function succeeded<T extends { success: boolean }>(result: T) {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${JSON.stringify(result)}`);
+  }
+  return result as Extract<T, { success: true }>;
+}
+
+function failed<T extends { success: boolean }>(result: T) {
+  if (result.success) {
+    throw new Error(`Expected a failure, got ${JSON.stringify(result)}`);
+  }
+  return result as Extract<T, { success: false }>;
+}
+
+function found(result: FindJewishHolidayResult) {
+  if (!result.found) {
+    throw new Error(`Expected a holiday, got ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+function notFound(result: FindJewishHolidayResult) {
+  if (result.found) {
+    throw new Error(`Expected no holiday, got ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+function listed(result: ListJewishHolidaysResult) {
+  if ("error" in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+describe("findJewishHoliday", () => {
+  it("finds Yom Kippur 2024 with its candle lighting and havdalah", () => {
+    const result = found(findJewishHoliday(2024, "Yom Kippur"));
+
+    expect(result.holidays.map((h) => h.name)).toEqual([
+      "Erev Yom Kippur",
+      "Yom Kippur",
+    ]);
+    const yomKippur = result.holidays[1];
+    expect(yomKippur.gregorianDate).toBe("Saturday, October 12, 2024");
+    expect(yomKippur.hebrewDate).toBe("10 Tishrei 5785");
+    expect(yomKippur.flags.isMajorHoliday).toBe(true);
+    expect(result.relatedZmanim.map((z) => z.description)).toEqual(
+      expect.arrayContaining(["Candle lighting", "Havdalah"])
+    );
+    expect(result.location.name).toBe("New York");
+  });
+
+  it("calculates times for the requested city", () => {
+    const result = found(
+      findJewishHoliday(2024, "Yom Kippur", {
+        city: "Jerusalem",
+      })
+    );
+
+    expect(result.location.timezone).toBe("Asia/Jerusalem");
+    expect(result.il).toBe(true);
+  });
+
+  it("suggests close matches for an unknown city", () => {
+    const result = notFound(
+      findJewishHoliday(2024, "Yom Kippur", { city: "Londn" })
+    );
+
+    expect(result.suggestions).toContain("London");
+  });
+
+  it("matches and renders names in the response language", () => {
+    const result = found(
+      findJewishHoliday(2024, "יום כפור", undefined, {
+        language: "he",
+      })
+    );
+
+    expect(result.holidays.map((h) => h.name)).toContain("יום כפור");
+  });
+
+  it("reports when nothing matches", () => {
+    const result = notFound(findJewishHoliday(2024, "Not a holiday"));
+
+    expect(result).toMatchObject({
+      message: expect.stringContaining("Not a holiday"),
+    });
+  });
+
+  it("finds holidays under other spellings, with the match score", () => {
+    const result = found(findJewishHoliday(2025, "Succos"));
+
+    expect(result.matches).toEqual([
+      { name: "Sukkot", matchedAlias: "Succos", score: 1 },
+    ]);
+    expect(result.holidays.map((h) => h.name)).toContain("Sukkot I");
+    expect(result.holidays.map((h) => h.name)).not.toContain("Simchat Torah");
+  });
+
+  it("suggests holidays for a query that is too short to match", () => {
+    const result = notFound(findJewishHoliday(2025, "Tu"));
+
+    expect(result.suggestions).toEqual(["Tu B'Av", "Tu BiShvat"]);
+    expect(result).toMatchObject({ message: expect.stringContaining('"Tu"') });
+  });
+});
+
+describe("convertDate", () => {
+  it("converts 15 Nisan 5785 to the first day of Pesach", () => {
+    const result = succeeded(convertDate("15 Nisan 5785", "hebrew"));
+
+    expect(result.gregorianDate.iso).toBe("2025-04-13");
+    expect(result.gregorianDate.dayOfWeek).toBe("Sunday");
+  });
+
+  it("flags Rosh Chodesh, but not Rosh Hashana", () => {
+    expect(
+      succeeded(convertDate("30 Nisan 5785", "hebrew")).additionalInfo
+        .isRoshChodesh
+    ).toBe(true);
+    expect(
+      succeeded(convertDate("1 Tishrei 5786", "hebrew")).additionalInfo
+        .isRoshChodesh
+    ).toBe(false);
+  });
+
+  it("includes the day's learning", () => {
+    const result = succeeded(convertDate("2025-10-19", "gregorian"));
+
+    expect(result.additionalInfo.dailyLearning[0]).toMatchObject({
+      schedule: "dafYomi",
+      reading: "Zevachim 35",
+    });
+  });
+
+  it("converts numeric Hebrew dates", () => {
+    const result = succeeded(convertDate("10/7/5785", "hebrew"));
+
+    expect(result.gregorianDate.iso).toBe("2024-10-12");
+  });
+
+  it("converts Yom Kippur 2024 to 10 Tishrei 5785 with the weekly parsha", () => {
+    const result = succeeded(convertDate("2024-10-12", "gregorian"));
+
+    expect(result.hebrewDate.formatted).toBe("10 Tishrei 5785");
+    expect(result.hebrewDate.hebrewYear).toBe(5785);
+    expect(result.gregorianDate.iso).toBe("2024-10-12");
+    expect(result.additionalInfo.parsha).toBe(null);
+  });
+
+  it("uses the Israel parsha when the schedules diverge", () => {
+    const diaspora = succeeded(convertDate("2022-04-27", "gregorian"));
+    const israel = succeeded(convertDate("2022-04-27", "gregorian", true));
+
+    expect(diaspora.additionalInfo.parsha).toBe("Parashat Achrei Mot");
+    expect(israel.additionalInfo.parsha).toBe("Parashat Kedoshim");
+  });
+
+  it("converts Hebrew dates written in Hebrew", () => {
+    const result = succeeded(convertDate("ט״ו בשבט תשפ״ה", "hebrew"));
+
+    expect(result.gregorianDate.iso).toBe("2025-02-13");
+    expect(result.additionalInfo.parsha).toBe("Parashat Yitro");
+  });
+
+  it("rejects dates it cannot read", () => {
+    expect(convertDate("not a date", "gregorian").success).toBe(false);
+    expect(convertDate("sometime in Adar", "hebrew").success).toBe(false);
+  });
+
+  it("explains why a Hebrew date does not exist", () => {
+    expect(convertDate("30 Adar II 5785", "hebrew")).toEqual({
+      success: false,
+      error: "5785 is not a leap year, so it has no Adar II. Use Adar.",
+    });
+  });
+});
+
+describe("getZmanim", () => {
+  it("gives the day's times with the location's UTC offset", () => {
+    // The summer solstice in Jerusalem, on Israel Daylight Time
+    const result = succeeded(getZmanim("2025-06-21", { city: "Jerusalem" }));
+
+    expect(result.hebrewDate).toBe("25 Sivan 5785");
+    expect(result.location.timezone).toBe("Asia/Jerusalem");
+    expect(result.zmanim.sunrise).toMatch(/^2025-06-21T05:34:\d\d\+03:00$/);
+    expect(result.zmanim.chatzot).toMatch(/^2025-06-21T12:40:\d\d\+03:00$/);
+    expect(result.zmanim.sunset).toMatch(/^2025-06-21T19:47:\d\d\+03:00$/);
+    expect(result.zmanim.tzeit).toMatch(/^2025-06-21T20:30:\d\d\+03:00$/);
+  });
+
+  it("uses standard time in the winter", () => {
+    const { zmanim } = succeeded(getZmanim("2024-12-21", { city: "New York" }));
+
+    expect(zmanim.sunrise).toMatch(/^2024-12-21T07:16:\d\d-05:00$/);
+    expect(zmanim.sofZmanShma).toMatch(/^2024-12-21T09:35:\d\d-05:00$/);
+    expect(zmanim.sunset).toMatch(/^2024-12-21T16:32:\d\d-05:00$/);
+  });
+
+  it("rejects bad dates and unknown cities", () => {
+    expect(getZmanim("21/06/2025").success).toBe(false);
+    expect(
+      failed(getZmanim("2025-06-21", { city: "Londn" })).suggestions
+    ).toContain("London");
+  });
+
+  it("rejects a longitude without its latitude instead of using New York", () => {
+    expect(
+      failed(
+        getZmanim("2025-06-21", { longitude: 35.2, timezone: "Asia/Jerusalem" })
+      ).error
+    ).toBe(
+      "A coordinate-based location needs latitude, longitude and timezone."
+    );
+  });
+});
+
+describe("listJewishHolidays", () => {
+  it("lists a Gregorian year in chronological order", () => {
+    const result = listed(listJewishHolidays(2024));
+
+    const isoDates = result.holidays.map((h) => h.isoDate);
+    expect(isoDates).toEqual([...isoDates].sort());
+    expect(isoDates[0].startsWith("2024-")).toBe(true);
+    expect(isoDates.at(-1)?.startsWith("2024-")).toBe(true);
+  });
+
+  it("covers a whole Hebrew year, including Chanukah across January", () => {
+    const result = listed(
+      listJewishHolidays(5785, {
+        calendar: "hebrew",
+        categories: ["major"],
+      })
+    );
+
+    expect(result.range).toEqual({ start: "2024-10-03", end: "2025-09-22" });
+    const names = result.holidays.map((h) => h.name);
+    expect(names[1]).toBe("Rosh Hashana 5785");
+    expect(names).toContain("Chanukah: 8 Candles");
+    expect(names).toContain("Pesach I");
+    expect(result.holidays.every((h) => h.category.includes("major"))).toBe(
+      true
+    );
+  });
+
+  it("follows the Israel schedule when asked", () => {
+    const diaspora = listed(
+      listJewishHolidays(2025, { categories: ["major"] })
+    );
+    const israel = listed(
+      listJewishHolidays(2025, {
+        categories: ["major"],
+        il: true,
+      })
+    );
+
+    const names = (result: typeof diaspora) =>
+      result.holidays.map((h) => h.name);
+    expect(names(diaspora)).toContain("Shavuot II");
+    expect(names(israel)).not.toContain("Shavuot II");
+  });
+
+  it("uses Ashkenazi transliterations when asked", () => {
+    const result = listed(
+      listJewishHolidays(2025, {
+        categories: ["major"],
+        language: "translit",
+      })
+    );
+
+    const names = result.holidays.map((h) => h.name);
+    expect(names).toContain("Shavuos I");
+    expect(names).not.toContain("Shavuot I");
+  });
+
+  it("rejects a Hebrew year passed as Gregorian", () => {
+    const result = listJewishHolidays(5785);
+
+    expect("error" in result && result.error).toContain("Hebrew year");
+  });
+});
+
+describe("calendarFeedLink", () => {
+  it("links to the feed with the requested options", () => {
+    const result = succeeded(
+      calendarFeedLink(
+        5785,
+        { city: "London" },
+        { calendar: "hebrew", categories: ["major", "fast"] },
+        "https://example.com"
+      )
+    );
+
+    expect(result.url).toBe(
+      "https://example.com/api/calendar.ics?year=5785&calendar=hebrew&category=major%2Cfast&city=London"
+    );
+    expect(result.subscribeUrl).toBe(
+      "webcal://example.com/api/calendar.ics?year=5785&calendar=hebrew&category=major%2Cfast&city=London"
+    );
+  });
+
+  it("checks the options before handing out a link", () => {
+    expect(calendarFeedLink(5785, undefined).success).toBe(false);
+    expect(calendarFeedLink(undefined, { city: "Londn" }).success).toBe(false);
+  });
+});
+
+describe("resolveDate", () => {
+  // Wednesday, 29 Elul 5784 in New York, the day before Rosh Hashana
+  const now = new Date("2024-10-02T16:00:00Z");
+  const resolve = (phrase: string) =>
+    succeeded(resolveDate(phrase, { city: "New York" }, { now }));
+
+  it("counts weekdays and offsets from today", () => {
+    expect(resolve("today").date.hebrewDate).toBe("29 Elul 5784");
+    expect(resolve("next Shabbos").date.iso).toBe("2024-10-05");
+    expect(resolve("last Shabbos").date.iso).toBe("2024-09-28");
+    expect(resolve("in 3 weeks").date.iso).toBe("2024-10-23");
+  });
+
+  it("resolves phrases relative to holidays", () => {
+    const beforePesach = resolve("two weeks before Pesach");
+    expect(beforePesach.date.iso).toBe("2025-03-30");
+    expect(beforePesach.explanation).toContain("Pesach I");
+
+    // After the last day of Sukkot, not the first
+    expect(resolve("the Sunday after Sukkos").date.iso).toBe("2024-10-27");
+    expect(resolve("the day after Yom Kippur").date.iso).toBe("2024-10-13");
+    expect(resolve("last Chanukah").date.iso).toBe("2023-12-07");
+    expect(resolve("Shavuos 5786").date.iso).toBe("2026-05-22");
+    // The Chanukah that starts in 2025, not the end of the one from 2024
+    expect(resolve("Chanukah 2025").date.iso).toBe("2025-12-14");
+  });
+
+  it("counts years after a Hebrew date in Hebrew years, with the parsha", () => {
+    const result = resolve("13 years after 5 Iyar 5772");
+
+    expect(result.date.hebrewDate).toBe("5 Iyyar 5785");
+    expect(result.parsha).toBe("Parashat Tazria-Metzora");
+  });
+
+  it("uses the day in the location's timezone", () => {
+    // 11:30 PM in New York is already the next day in Jerusalem
+    const late = new Date("2024-10-03T03:30:00Z");
+
+    expect(
+      succeeded(resolveDate("today", { city: "New York" }, { now: late })).date
+        .iso
+    ).toBe("2024-10-02");
+    expect(
+      succeeded(resolveDate("today", { city: "Jerusalem" }, { now: late })).date
+        .iso
+    ).toBe("2024-10-03");
+  });
+
+  it("explains phrases it cannot resolve", () => {
+    const failure = (phrase: string) =>
+      failed(resolveDate(phrase, { city: "New York" }, { now }));
+
+    expect(failure("someday").error).toContain('"someday"');
+    expect(failure("30 Adar II 5785").error).toBe(
+      "5785 is not a leap year, so it has no Adar II. Use Adar."
+    );
+  });
+
+  it("sends bar and bat mitzvah phrases to getHebrewAnniversaries", () => {
+    expect(
+      failed(resolveDate("my bar mitzvah parsha", undefined, { now })).error
+    ).toContain("getHebrewAnniversaries");
+    expect(
+      failed(resolveDate("her bas mitzvah", undefined, { now })).error
+    ).toContain("getHebrewAnniversaries");
+  });
+});
+
+describe("todaysDate", () => {
+  it("uses the user's timezone and rolls the Hebrew date over at sunset", () => {
+    // 10 PM on Friday, October 11, 2024 in Los Angeles: Kol Nidrei night
+    const result = succeeded(
+      todaysDate(undefined, {
+        timezone: "America/Los_Angeles",
+        now: new Date("2024-10-12T05:00:00Z"),
+      })
+    );
+
+    expect(result.date).toBe("2024-10-11");
+    expect(result.localTime).toBe("2024-10-11T22:00:00-07:00");
+    expect(result.location.name).toBe("Los Angeles");
+    expect(result.afterSunset).toBe(true);
+    expect(result.hebrewDate.formatted).toBe("10 Tishrei 5785");
+    expect(result.isShabbat).toBe(true);
+    expect(result.yomTov).toEqual(["Yom Kippur"]);
+  });
+
+  it("starts Shabbat and Yom Tov at candle lighting, before sunset", () => {
+    // 6:10 PM in New York, after the 6:03 PM candle lighting
+    const result = succeeded(
+      todaysDate(
+        { city: "New York" },
+        { now: new Date("2024-10-11T22:10:00Z") }
+      )
+    );
+
+    expect(result.afterSunset).toBe(false);
+    expect(result.hebrewDate.formatted).toBe("9 Tishrei 5785");
+    expect(result.isYomTov).toBe(true);
+  });
+
+  it("reports an ordinary weekday", () => {
+    const result = succeeded(
+      todaysDate(
+        { city: "New York" },
+        { now: new Date("2024-10-16T16:00:00Z") }
+      )
+    );
+
+    expect(result.isShabbat).toBe(false);
+    expect(result.isYomTov).toBe(false);
+    expect(result.yomTov).toEqual([]);
+  });
+});
+
+describe("getHebrewAnniversaries", () => {
+  // 29 Elul 5784
+  const now = new Date("2024-10-02T16:00:00Z");
+
+  it("moves a death after sunset to the next Hebrew date", () => {
+    // After sunset on March 10, 2000 was already 4 Adar II 5760
+    const result = succeeded(
+      getHebrewAnniversaries("2000-03-10", "yahrzeit", {
+        afterSunset: true,
+        years: 3,
+        now,
+      })
+    );
+
+    expect(result.original.hebrewDate).toBe("4 Adar II 5760");
+    // Adar in regular years, Adar II in leap years
+    expect(result.anniversaries.map((a) => a.hebrewDate)).toEqual([
+      "4 Adar 5785",
+      "4 Adar 5786",
+      "4 Adar II 5787",
+    ]);
+    expect(result.anniversaries[0].beginsEvening).toBe("2025-03-03");
+  });
+
+  it("follows the first yahrzeit for 30 Cheshvan", () => {
+    // 30 Cheshvan 5785; 5786 has no 30 Cheshvan
+    const result = succeeded(
+      getHebrewAnniversaries("2024-12-01", "yahrzeit", {
+        years: 2,
+        now: new Date("2025-06-01T12:00:00Z"),
+      })
+    );
+
+    expect(result.anniversaries.map((a) => a.hebrewDate)).toEqual([
+      "29 Cheshvan 5786",
+      "30 Cheshvan 5787",
+    ]);
+    expect(result.notes[0]).toContain("30 Cheshvan");
+  });
+
+  it("gives the bar and bat mitzvah for a birth in Adar", () => {
+    // 10 Adar 5766, a regular year; 5779 is a leap year
+    const result = succeeded(
+      getHebrewAnniversaries("2006-03-10", "birthday", {
+        now,
+      })
+    );
+
+    expect(result.original.hebrewDate).toBe("10 Adar 5766");
+    expect(result.barMitzvah?.hebrewDate).toBe("10 Adar II 5779");
+    expect(result.barMitzvah?.shabbat).toBe("2019-03-23");
+    expect(result.barMitzvah?.parsha).toBe("Parashat Tzav");
+    expect(result.batMitzvah?.hebrewDate).toBe("10 Adar 5778");
+    expect(result.anniversaries).toHaveLength(5);
+  });
+
+  it("rejects a yahrzeit in the future", () => {
+    expect(
+      getHebrewAnniversaries("2030-01-01", "yahrzeit", { now }).success
+    ).toBe(false);
+  });
+});
+
+describe("getParsha", () => {
+  it("gives the aliyot, haftarot and special maftir", () => {
+    // Shabbat Shekalim on Rosh Chodesh Adar 5785
+    const result = succeeded(getParsha("2025-02-27"));
+
+    expect(result.readings).toHaveLength(1);
+    const [reading] = result.readings;
+    expect(reading.date).toBe("2025-03-01");
+    expect(reading.name).toBe("Parashat Terumah");
+    expect(reading.specialShabbat).toEqual(["Shabbat Shekalim"]);
+    expect(reading.aliyot.map((a) => a.aliyah)).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+      "7",
+      "maftir",
+    ]);
+    expect(reading.aliyot[6].reading).toBe("Numbers 28:9-28:15");
+    expect(reading.maftir).toEqual({
+      reading: "Exodus 30:11-30:16",
+      verses: 6,
+      reason: "Shabbat Shekalim (on Rosh Chodesh)",
+    });
+    expect(reading.haftarah).toEqual({
+      ashkenazi: "II Kings 12:1-17",
+      sephardi: "II Kings 11:17-12:17",
+      reason: "Shabbat Shekalim (on Rosh Chodesh)",
+    });
+  });
+
+  it("reads the holiday instead of the parsha outside Israel", () => {
+    // The eighth day of Pesach 5779 was on Shabbat
+    const diaspora = succeeded(getParsha("2019-04-27"));
+    const israel = succeeded(getParsha("2019-04-27", { il: true }));
+
+    expect(diaspora.readings[0].type).toBe("holiday");
+    expect(diaspora.readings[0].parsha).toBeNull();
+    expect(israel.readings[0].name).toBe("Parashat Achrei Mot");
+  });
+
+  it("follows the location's schedule without il", () => {
+    const result = succeeded(
+      getParsha("2019-04-27", { location: { city: "Jerusalem" } })
+    );
+
+    expect(result.il).toBe(true);
+    expect(result.readings[0].name).toBe("Parashat Achrei Mot");
+    expect(
+      listed(
+        listJewishHolidays(2025, {
+          categories: ["major"],
+          location: { city: "Jerusalem" },
+        })
+      ).holidays.map((h) => h.name)
+    ).not.toContain("Shavuot II");
+  });
+
+  it("lists every Shabbat in a range", () => {
+    const result = succeeded(
+      getParsha(undefined, {
+        start: "2025-03-20",
+        end: "2025-04-15",
+      })
+    );
+
+    expect(result.readings.map((r) => [r.name, r.specialShabbat])).toEqual([
+      ["Parashat Vayakhel", ["Shabbat Parah"]],
+      ["Parashat Pekudei", ["Shabbat HaChodesh"]],
+      ["Parashat Vayikra", []],
+      ["Parashat Tzav", ["Shabbat HaGadol"]],
+    ]);
+  });
+
+  it("defaults to this week's Shabbat in the user's timezone", () => {
+    // Friday night in Jerusalem, still Friday afternoon in New York
+    const now = new Date("2025-03-14T23:00:00Z");
+
+    const result = succeeded(
+      getParsha(undefined, {
+        now,
+        timezone: "America/New_York",
+      })
+    );
+
+    expect(result.readings[0].date).toBe("2025-03-15");
+    expect(result.readings[0].name).toBe("Parashat Ki Tisa");
+  });
+
+  it("rejects long or reversed ranges", () => {
+    expect(
+      getParsha(undefined, { start: "2025-01-01", end: "2026-01-01" }).success
+    ).toBe(false);
+    expect(
+      getParsha(undefined, { start: "2025-03-01", end: "2025-02-01" }).success
+    ).toBe(false);
+  });
+});
+
+describe("getShabbatTimes", () => {
+  it("gives candle lighting, havdalah, parsha and Shabbat Mevarchim", () => {
+    const result = succeeded(
+      getShabbatTimes("2025-10-16", { city: "New York" })
+    );
+
+    expect(result.havdalah).toEqual({ minutes: 42, degrees: null });
+    expect(result.shabbatot).toHaveLength(1);
+    const [shabbat] = result.shabbatot;
+    expect(shabbat.date).toBe("2025-10-18");
+    expect(shabbat.candleLighting).toBe("2025-10-17T17:54:00-04:00");
+    expect(shabbat.havdalah).toBe("2025-10-18T18:53:00-04:00");
+    expect(shabbat.parsha).toBe("Parashat Bereshit");
+    expect(shabbat.mevarchim).toMatchObject({
+      month: "Cheshvan",
+      roshChodesh: ["2025-10-22", "2025-10-23"],
+    });
+    expect(shabbat.mevarchim?.molad).toContain("Molad Cheshvan");
+  });
+
+  it("takes havdalah in degrees instead of minutes", () => {
+    const minutes = succeeded(
+      getShabbatTimes(
+        "2025-10-16",
+        { city: "Jerusalem" },
+        {
+          havdalahMins: 72,
+        }
+      )
+    );
+    const degrees = succeeded(
+      getShabbatTimes(
+        "2025-10-16",
+        { city: "Jerusalem" },
+        {
+          havdalahDegrees: 8.5,
+        }
+      )
+    );
+
+    expect(minutes.havdalah).toEqual({ minutes: 72, degrees: null });
+    expect(degrees.havdalah).toEqual({ minutes: null, degrees: 8.5 });
+    // Nightfall at 8.5 degrees comes before 72 minutes in Jerusalem
+    const early = degrees.shabbatot[0].havdalah;
+    const late = minutes.shabbatot[0].havdalah;
+    expect(early && late && early < late).toBe(true);
+    expect(
+      getShabbatTimes("2025-10-16", undefined, {
+        havdalahMins: 50,
+        havdalahDegrees: 8.5,
+      }).success
+    ).toBe(false);
+  });
+
+  it("lights for Yom Tov instead of havdalah when it follows Shabbat", () => {
+    // Erev Pesach 5785 was on Shabbat HaGadol
+    const result = succeeded(
+      getShabbatTimes("2025-04-12", { city: "New York" })
+    );
+
+    const [shabbat] = result.shabbatot;
+    expect(shabbat.havdalah).toBeNull();
+    expect(shabbat.yomTovCandleLighting).toBe("2025-04-12T20:15:00-04:00");
+    expect(shabbat.specialShabbat).toEqual(["Shabbat HaGadol"]);
+    expect(shabbat.notes[0]).toContain("Yom Tov begins");
+  });
+
+  it("marks a Shabbat that is also Yom Tov", () => {
+    const result = succeeded(
+      getShabbatTimes(
+        undefined,
+        { city: "New York" },
+        {
+          start: "2026-05-17",
+          end: "2026-05-30",
+        }
+      )
+    );
+
+    expect(result.shabbatot.map((s) => [s.date, s.isYomTov])).toEqual([
+      ["2026-05-23", true],
+      ["2026-05-30", false],
+    ]);
+    expect(result.shabbatot[0].holidays).toEqual(["Shavuot II"]);
+  });
+});
+
+describe("getOmer", () => {
+  it("gives the count for the evening with its sefirah and text", () => {
+    const result = succeeded(getOmer("2025-04-20", { city: "Jerusalem" }));
+
+    expect(result.tonight).toMatchObject({
+      day: 8,
+      weeks: 1,
+      days: 1,
+      hebrewDate: "23 Nisan 5785",
+    });
+    expect(result.tonight?.sefirah.translit).toBe("Chesed shebiGevurah");
+    expect(result.tonight?.text.en).toBe(
+      "Today is 8 days, which is 1 week and 1 day of the Omer"
+    );
+    expect(result.tonight?.text.he).toContain("שָׁבֽוּעַ אֶחָד");
+    expect(result.today?.day).toBe(7);
+    expect(result.tzeit).toMatch(/^2025-04-20T19:\d\d:\d\d\+03:00$/);
+  });
+
+  it("keeps the night's count until dawn, then looks ahead to tonight", () => {
+    const at = (now: string) => {
+      const result = getOmer(
+        undefined,
+        { city: "New York" },
+        { now: new Date(now) }
+      );
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result;
+    };
+
+    // 12:30 AM EDT on April 15, 2025: still the night of April 14, day 2
+    const lateNight = at("2025-04-15T04:30:00Z");
+    expect(lateNight.date).toBe("2025-04-14");
+    expect(lateNight.tonight?.day).toBe(2);
+    expect(lateNight.today?.day).toBe(1);
+
+    // 2 PM the same day: tonight is day 3
+    const afternoon = at("2025-04-15T18:00:00Z");
+    expect(afternoon.date).toBe("2025-04-15");
+    expect(afternoon.tonight?.day).toBe(3);
+  });
+
+  it("says when the count next begins outside the Omer", () => {
+    const result = succeeded(getOmer("2025-10-19"));
+
+    expect(result.tonight).toBeNull();
+    expect(result.blessing).toBeNull();
+    expect(result.note).toContain("2026-04-02");
+    expect(succeeded(getOmer("2025-06-01")).note).toContain("Shavuot");
+  });
+});
+
+describe("getRoshChodesh", () => {
+  it("gives the molad, Rosh Chodesh and Shabbat Mevarchim for a month", () => {
+    const result = succeeded(
+      getRoshChodesh(undefined, { city: "Jerusalem" }, { month: "Iyar 5785" })
+    );
+
+    const [iyar] = result.months;
+    expect(iyar.roshChodesh.map((day) => day.iso)).toEqual([
+      "2025-04-28",
+      "2025-04-29",
+    ]);
+    expect(iyar.shabbatMevarchim?.iso).toBe("2025-04-26");
+    expect(iyar.molad).toMatchObject({
+      dayOfWeek: "Sunday",
+      hour: 20,
+      minutes: 30,
+      chalakim: 2,
+      // 20:30 Jerusalem mean time is 21:09 Israel Daylight Time
+      time: "2025-04-27T21:09:10+03:00",
+    });
+    expect(iyar.kiddushLevana.fromThreeDays).toBe("2025-04-30T21:09:10+03:00");
+    expect(iyar.kiddushLevana.untilHalfMonth).toBe("2025-05-12T15:31:12+03:00");
+  });
+
+  it("has the announcement in Hebrew and Yiddish", () => {
+    const [iyar] = succeeded(
+      getRoshChodesh(undefined, undefined, { month: "Iyar 5785" })
+    ).months;
+
+    expect(iyar.announcement.he.roshChodesh).toBe(
+      "ראש חודש אייר יהיה ביום שני וביום שלישי הבא עלינו ועל כל ישראל לטובה"
+    );
+    expect(iyar.announcement.yi.roshChodesh).toBe(
+      "ראש חודש אייר וועט זיין מאנטאג און דינסטאג"
+    );
+    expect(iyar.announcement.yi.molad).toBe(
+      "דער מולד איז זונטאג פארנאכט, 30 מינוט און 2 חלקים נאך 8 אזייגער"
+    );
+  });
+
+  it("matches hebcal's Shabbat Mevarchim over a year, skipping Tishrei", () => {
+    const result = succeeded(
+      getRoshChodesh(
+        undefined,
+        { city: "New York" },
+        { start: "2025-09-01", end: "2026-08-31" }
+      )
+    );
+
+    const mevarchim = HebrewCalendar.calendar({
+      start: new Date(2025, 8, 1),
+      end: new Date(2026, 7, 31),
+      shabbatMevarchim: true,
+      noHolidays: true,
+    }).map((event) => toIsoDate(event.getDate()));
+    expect(result.months).toHaveLength(11);
+    expect(result.months[0].month).toBe("Cheshvan");
+    expect(result.months.map((m) => m.shabbatMevarchim?.iso)).toEqual(
+      mevarchim
+    );
+  });
+
+  it("finds the next Rosh Chodesh from a date", () => {
+    // 29 Adar 5785; Rosh Chodesh Nisan was the next day
+    const result = succeeded(getRoshChodesh("2025-03-29"));
+
+    expect(result.months[0].month).toBe("Nisan");
+    expect(result.months[0].roshChodesh[0].iso).toBe("2025-03-30");
+    expect(
+      getRoshChodesh(undefined, undefined, { month: "Adar 5784" })
+    ).toEqual({
+      success: false,
+      error:
+        "5784 is a leap year with two months of Adar. Say Adar I or Adar II.",
+    });
+  });
+});
+
+describe("getDailyLearning", () => {
+  it("gives every schedule for a date with its cycle", () => {
+    const result = succeeded(getDailyLearning("2025-10-19"));
+
+    const [day] = result.days;
+    expect(day.hebrewDate).toBe("27 Tishrei 5786");
+    expect(day.learning.map((entry) => entry.schedule)).toEqual([
+      "dafYomi",
+      "yerushalmiYomi",
+      "mishnaYomi",
+      "nachYomi",
+      "rambam1",
+      "rambam3",
+      "chofetzChaim",
+    ]);
+    expect(day.learning[0]).toMatchObject({
+      reading: "Zevachim 35",
+      cycle: 14,
+      dayInCycle: 2115,
+    });
+  });
+
+  it("lists a range for the requested schedules", () => {
+    const result = succeeded(
+      getDailyLearning(undefined, {
+        start: "2025-10-19",
+        end: "2025-10-21",
+        schedules: ["nachYomi"],
+      })
+    );
+
+    expect(
+      result.days.map((day) => day.learning.map((e) => e.reading))
+    ).toEqual([["Ecclesiastes 7"], ["Ecclesiastes 8"], ["Ecclesiastes 9"]]);
+    expect(
+      getDailyLearning(undefined, { start: "2025-10-01", end: "2025-12-01" })
+        .success
+    ).toBe(false);
+  });
+});
@@ -1,120 +1,215 @@
 import { z } from "zod";
-import { HebrewCalendar, HDate, Event, Location } from "@hebcal/core";
+import {
+  type CalOptions,
+  HebrewCalendar,
+  HDate,
+  Event,
+  HavdalahEvent,
+  Locale,
+  MevarchimChodeshEvent,
+  Molad,
+  OmerEvent,
+  TimedEvent,
+  Zmanim,
+  flags,
+  months,
+} from "@hebcal/core";
+import {
+  type Aliyah,
+  type Leyning,
+  formatAliyahWithBook,
+  getLeyningOnDate,
+} from "@hebcal/leyning";
+import {
+  type LocationInput,
+  cityForTimezone,
+  describeLocation,
+  describeSchedule,
+  locationSchema,
+  resolveIsrael,
+  resolveLocation,
+} from "./location.ts";
+import { type Language, hebcalLocale } from "./language.ts";
+import { parseHebrewDate, parseHebrewMonth } from "./hebrew-date.ts";
+import { rankHolidayNames, selectHolidayMatches } from "./holiday-names.ts";
+import { type LearningSchedule, dailyLearning } from "./learning.ts";
+import {
+  type CalendarFeedLinkResult,
+  type ConvertDateResult,
+  type DailyLearningResult,
+  type DayDescription,
+  type FindJewishHolidayResult,
+  type HebrewAnniversariesResult,
+  type HolidayDetails,
+  type ListJewishHolidaysResult,
+  type OmerResult,
+  type ParshaResult,
+  type RelatedZman,
+  type ResolveDateResult,
+  type RoshChodeshResult,
+  type ShabbatTimesResult,
+  type TodaysDateResult,
+  type ZmanimResult,
+  HOLIDAY_CATEGORIES,
+  LEARNING_SCHEDULES,
+  calendarFeedLinkResultSchema,
+  checkToolOutput,
+  convertDateResultSchema,
+  dailyLearningResultSchema,
+  findJewishHolidayResultSchema,
+  hebrewAnniversariesResultSchema,
+  listJewishHolidaysResultSchema,
+  omerResultSchema,
+  parshaResultSchema,
+  resolveDateResultSchema,
+  roshChodeshResultSchema,
+  shabbatTimesResultSchema,
+  todaysDateResultSchema,
+  zmanimResultSchema,
+} from "./schemas.ts";
 
-export function findJewishHoliday(year: number, holidayName: string) {
+// Minutes after sunset for havdalah
+export const HAVDALAH_MINS = 42;
+
+const MAX_HOLIDAY_SUGGESTIONS = 5;
+
+export function findJewishHoliday(
+  year: number | undefined,
+  holidayName: string,
+  locationInput?: LocationInput,
+  options: HolidayQueryOptions = {}
+): FindJewishHolidayResult {
   try {
+    const period = resolvePeriod({ ...options, year });
+    if (!period.success) {
+      return { found: false, error: period.error };
+    }
+
     // Get comprehensive calendar with candle lighting and zmanim
-    // Using New York as default location - in a real app, this could be configurable
-    const location = Location.lookup("New York");
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        found: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const il = options.il ?? location.getIsrael();
+    const locale = hebcalLocale(options.language);
+    const formatTime = (time: Date) =>
+      time.toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+        timeZone: location.getTzid(),
+      });
     const events = HebrewCalendar.calendar({
-      year,
-      isHebrewYear: false,
+      ...period.calendarOptions,
+      il,
       candlelighting: true,
       location: location,
-      havdalahMins: 42, // Standard havdalah time
+      havdalahMins: HAVDALAH_MINS,
       sedrot: true, // Include Torah readings
       omer: true, // Include counting of the Omer
       molad: true, // Include molad times
       ashkenazi: true, // Use Ashkenazi transliterations
     });
 
-    // Filter for holidays that match the name (case-insensitive partial match)
-    const matchingHolidays = events.filter((event: Event) => {
-      const eventDesc = event.render("en").toLowerCase();
-      const searchName = holidayName.toLowerCase();
-      return eventDesc.includes(searchName) || searchName.includes(eventDesc);
-    });
+    // Rank the holidays in the period by how well their names match, in any
+    // spelling, and take every day of the best ones
+    const ranked = rankHolidayNames(
+      holidayName,
+      events.map((event) => event.basename()),
+      locale
+    );
+    const matches = selectHolidayMatches(ranked);
+    const matchedNames = new Set(matches.map((match) => match.basename));
+    const matchingHolidays = events.filter((event: Event) =>
+      matchedNames.has(event.basename())
+    );
 
     if (matchingHolidays.length === 0) {
+      const suggestions = ranked
+        .slice(0, MAX_HOLIDAY_SUGGESTIONS)
+        .map((match) => Locale.gettext(match.basename, locale));
       return {
         found: false,
-        message: `No holiday found matching "${holidayName}" in ${year}. Try using the listJewishHolidays tool to see all available holidays.`,
+        message: `No holiday found matching "${holidayName}" in ${period.description}.`,
+        suggestions,
       };
     }
 
     // Return detailed information for all matching holidays
-    const holidayDetails = matchingHolidays.map((event: Event) => {
-      const hd = event.getDate();
-      const gregorianDate = hd.greg();
+    const holidayDetails = matchingHolidays.map(
+      (event: Event): HolidayDetails => {
+        const hd = event.getDate();
+        const gregorianDate = hd.greg();
+        const desc = event.getDesc();
+        const categories = event.getCategories();
 
-      // Get additional event details
-      const eventDetails: any = {
-        name: event.render("en"),
-        gregorianDate: gregorianDate.toLocaleDateString("en-US", {
-          weekday: "long",
-          year: "numeric",
-          month: "long",
-          day: "numeric",
-        }),
-        hebrewDate: hd.toString(),
-        hebrewYear: hd.getFullYear(),
-        category: event.getCategories().join(", "),
-        description: event.getDesc(),
-        url: event.url() || null,
-        memo: event.memo || null,
-      };
+        // Get additional event details
+        const eventDetails: HolidayDetails = {
+          name: event.render(locale),
+          gregorianDate: gregorianDate.toLocaleDateString("en-US", {
+            weekday: "long",
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+          }),
+          hebrewDate: hd.toString(),
+          hebrewYear: hd.getFullYear(),
+          category: categories.join(", "),
+          description: desc,
+          url: event.url() || null,
+          memo: event.memo || null,
+          // Add location information for zmanim
+          location: describeLocation(location),
+          // Add flags for holiday characteristics
+          flags: {
+            isHoliday: categories.includes("holiday"),
+            isCandleLighting: desc.includes("Candle lighting"),
+            isHavdalah: desc.includes("Havdalah"),
+            isRoshChodesh: categories.includes("roshchodesh"),
+            isModernHoliday: categories.includes("modern"),
+            isMinorHoliday: categories.includes("minor"),
+            isMajorHoliday: categories.includes("major"),
+            isFast: categories.includes("fast"),
+          },
+        };
 
-      // Add comprehensive zmanim information (using type assertion for runtime properties)
-      const eventAny = event as any;
-      if (eventAny.eventTime) {
-        eventDetails.eventTime = eventAny.eventTime.toLocaleTimeString(
-          "en-US",
-          {
-            hour: "numeric",
-            minute: "2-digit",
-            hour12: true,
-          }
-        );
-        eventDetails.eventTimeStr = eventAny.eventTimeStr || null;
-        eventDetails.fmtTime = eventAny.fmtTime || null;
-      }
+        // Add comprehensive zmanim information for timed events
+        if (event instanceof TimedEvent) {
+          eventDetails.eventTime = formatTime(event.eventTime);
+          eventDetails.eventTimeStr = event.eventTimeStr || null;
+          eventDetails.fmtTime = event.fmtTime || null;
 
-      // Add specific zmanim based on event type
-      if (event.getDesc().includes("Candle lighting")) {
-        eventDetails.candleLightingTime =
-          eventAny.fmtTime || eventAny.eventTimeStr;
-      } else if (event.getDesc().includes("Havdalah")) {
-        eventDetails.havdalahTime = eventAny.fmtTime || eventAny.eventTimeStr;
-        eventDetails.havdalahMins = eventAny.havdalahMins || null;
-      } else if (event.getDesc().includes("Fast begins")) {
-        eventDetails.fastBeginTime = eventAny.fmtTime || eventAny.eventTimeStr;
-      } else if (event.getDesc().includes("Fast ends")) {
-        eventDetails.fastEndTime = eventAny.fmtTime || eventAny.eventTimeStr;
-      }
+          // Add specific zmanim based on event type
+          const time = event.fmtTime || event.eventTimeStr;
+          if (desc.includes("Candle lighting")) {
+            eventDetails.candleLightingTime = time;
+          } else if (desc.includes("Havdalah")) {
+            eventDetails.havdalahTime = time;
+            eventDetails.havdalahMins = HAVDALAH_MINS;
+          } else if (desc.includes("Fast begins")) {
+            eventDetails.fastBeginTime = time;
+          } else if (desc.includes("Fast ends")) {
+            eventDetails.fastEndTime = time;
+          }
+        }
 
-      // Add location information for zmanim
-      if (location) {
-        eventDetails.location = {
-          name: location.getName(),
-          latitude: location.getLatitude(),
-          longitude: location.getLongitude(),
-          timezone: location.getTzid(),
-        };
-      }
+        // Check if this is a candle lighting event
+        if (desc.includes("Candle lighting")) {
+          eventDetails.eventType = "candle_lighting";
+        } else if (desc.includes("Havdalah")) {
+          eventDetails.eventType = "havdalah";
+        } else if (categories.includes("holiday")) {
+          eventDetails.eventType = "holiday";
+        }
 
-      // Check if this is a candle lighting event
-      if (event.getDesc().includes("Candle lighting")) {
-        eventDetails.eventType = "candle_lighting";
-      } else if (event.getDesc().includes("Havdalah")) {
-        eventDetails.eventType = "havdalah";
-      } else if (event.getCategories().includes("holiday")) {
-        eventDetails.eventType = "holiday";
+        return eventDetails;
       }
-
-      // Add flags for holiday characteristics
-      eventDetails.flags = {
-        isHoliday: event.getCategories().includes("holiday"),
-        isCandleLighting: event.getDesc().includes("Candle lighting"),
-        isHavdalah: event.getDesc().includes("Havdalah"),
-        isRoshChodesh: event.getCategories().includes("roshchodesh"),
-        isModernHoliday: event.getCategories().includes("modern"),
-        isMinorHoliday: event.getCategories().includes("minor"),
-        isMajorHoliday: event.getCategories().includes("major"),
-        isFast: event.getCategories().includes("fast"),
-      };
-
-      return eventDetails;
-    });
+    );
 
     // Find related zmanim events (candle lighting, havdalah, etc.) for the holiday dates
     const holidayDates = matchingHolidays.map((event) => event.getDate().abs());
@@ -132,12 +227,12 @@ export function findJewishHoliday(year: number, holidayName: string) {
           holidayDates.some((hDate) => Math.abs(eventDate - hDate) <= 2)
         );
       })
-      .map((event) => {
+      .map((event): RelatedZman => {
         const hd = event.getDate();
         const gregorianDate = hd.greg();
 
-        const zmanimDetails: any = {
-          name: event.render("en"),
+        const zmanimDetails: RelatedZman = {
+          name: event.render(locale),
           gregorianDate: gregorianDate.toLocaleDateString("en-US", {
             weekday: "long",
             year: "numeric",
@@ -149,23 +244,15 @@ export function findJewishHoliday(year: number, holidayName: string) {
           description: event.getDesc(),
         };
 
-        // Add time information (using type assertion for runtime properties)
-        const eventAny = event as any;
-        if (eventAny.eventTime) {
-          zmanimDetails.time = eventAny.fmtTime || eventAny.eventTimeStr;
-          zmanimDetails.eventTime = eventAny.eventTime.toLocaleTimeString(
-            "en-US",
-            {
-              hour: "numeric",
-              minute: "2-digit",
-              hour12: true,
-            }
-          );
+        // Add time information
+        if (event instanceof TimedEvent) {
+          zmanimDetails.time = event.fmtTime || event.eventTimeStr;
+          zmanimDetails.eventTime = formatTime(event.eventTime);
         }
 
         // Add specific zmanim properties
-        if (eventAny.havdalahMins) {
-          zmanimDetails.havdalahMins = eventAny.havdalahMins;
+        if (event instanceof HavdalahEvent) {
+          zmanimDetails.havdalahMins = HAVDALAH_MINS;
         }
 
         return zmanimDetails;
@@ -174,12 +261,21 @@ export function findJewishHoliday(year: number, holidayName: string) {
     return {
       found: true,
       year,
+      calendar: period.calendar,
+      range: period.range,
+      il,
+      schedule: describeSchedule(il),
       searchTerm: holidayName,
+      matches: matches.map((match) => ({
+        name: Locale.gettext(match.basename, locale),
+        matchedAlias: match.alias,
+        score: match.score,
+      })),
       holidays: holidayDetails,
       relatedZmanim: relatedZmanim,
       zmanimCount: relatedZmanim.length,
-      locationNote:
-        "Times calculated for New York. Actual times may vary by location.",
+      location: describeLocation(location),
+      locationNote: `Times calculated for ${location.getName()} (${location.getTzid()}).`,
     };
   } catch (error) {
     return {
@@ -193,14 +289,17 @@ export function findJewishHoliday(year: number, holidayName: string) {
 
 export function convertDate(
   inputDate: string,
-  fromCalendar: "gregorian" | "hebrew"
-) {
+  fromCalendar: "gregorian" | "hebrew",
+  il = false,
+  language?: Language
+): ConvertDateResult {
   try {
     let hDate: HDate;
 
     if (fromCalendar === "gregorian") {
       // Convert from Gregorian to Hebrew
-      const gregorianDate = new Date(inputDate);
+      // Read YYYY-MM-DD as a local calendar day rather than UTC midnight
+      const gregorianDate = parseIsoDate(inputDate) ?? new Date(inputDate);
       if (isNaN(gregorianDate.getTime())) {
         return {
           success: false,
@@ -221,7 +320,7 @@ export function convertDate(
             month: "long",
             day: "numeric",
           }),
-          iso: gregorianDate.toISOString().split("T")[0],
+          iso: toIsoDate(hDate),
           dayOfWeek: gregorianDate.toLocaleDateString("en-US", {
             weekday: "long",
           }),
@@ -239,25 +338,21 @@ export function convertDate(
         },
         additionalInfo: {
           julianDay: hDate.abs(),
-          isRoshChodesh:
-            hDate.getDate() === 1 ||
-            (hDate.getDate() === 30 && hDate.daysInMonth() === 30),
+          isRoshChodesh: isRoshChodesh(hDate),
           season: getJewishSeason(hDate),
-          parsha: getWeeklyParsha(hDate),
+          parsha: getWeeklyParsha(hDate, il, hebcalLocale(language)),
+          schedule: describeSchedule(il),
+          dailyLearning: dailyLearning(hDate, hebcalLocale(language)),
         },
       };
     } else {
       // Convert from Hebrew to Gregorian
-      // Parse Hebrew date string (e.g., "15 Tishrei 5785" or "15/1/5785")
-      const hebrewParts = parseHebrewDate(inputDate);
-      if (!hebrewParts) {
-        return {
-          success: false,
-          error: `Invalid Hebrew date format: ${inputDate}. Please use formats like "15 Tishrei 5785" or "15/1/5785".`,
-        };
+      const parsed = parseHebrewDate(inputDate);
+      if (!parsed.success) {
+        return { success: false, error: parsed.error };
       }
 
-      hDate = new HDate(hebrewParts.day, hebrewParts.month, hebrewParts.year);
+      hDate = new HDate(parsed.day, parsed.month, parsed.year);
       const gregorianDate = hDate.greg();
 
       return {
@@ -283,17 +378,18 @@ export function convertDate(
             month: "long",
             day: "numeric",
           }),
-          iso: gregorianDate.toISOString().split("T")[0],
+          iso: toIsoDate(hDate),
           dayOfWeek: gregorianDate.toLocaleDateString("en-US", {
             weekday: "long",
           }),
         },
         additionalInfo: {
           julianDay: hDate.abs(),
-          isRoshChodesh:
-            hDate.getDate() === 1 ||
-            (hDate.getDate() === 30 && hDate.daysInMonth() === 30),
+          isRoshChodesh: isRoshChodesh(hDate),
           season: getJewishSeason(hDate),
+          parsha: getWeeklyParsha(hDate, il, hebcalLocale(language)),
+          schedule: describeSchedule(il),
+          dailyLearning: dailyLearning(hDate, hebcalLocale(language)),
         },
       };
     }
@@ -307,38 +403,6 @@ export function convertDate(
   }
 }
 
-function parseHebrewDate(
-  dateStr: string
-): { day: number; month: number | string; year: number } | null {
-  try {
-    // Handle numeric format like "15/1/5785" or "15-1-5785"
-    const numericMatch = dateStr.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-    if (numericMatch) {
-      return {
-        day: parseInt(numericMatch[1]),
-        month: parseInt(numericMatch[2]),
-        year: parseInt(numericMatch[3]),
-      };
-    }
-
-    // Handle text format like "15 Tishrei 5785" or "15th of Tishrei 5785"
-    const textMatch = dateStr.match(
-      /(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([A-Za-z]+)\s+(\d{4})/
-    );
-    if (textMatch) {
-      return {
-        day: parseInt(textMatch[1]),
-        month: textMatch[2], // Month name
-        year: parseInt(textMatch[3]),
-      };
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 function getJewishSeason(hDate: HDate): string {
   const month = hDate.getMonth();
   if (month >= 1 && month <= 3) return "Winter";
@@ -347,56 +411,73 @@ function getJewishSeason(hDate: HDate): string {
   return "Fall";
 }
 
-function getWeeklyParsha(hDate: HDate): string | null {
+function getWeeklyParsha(
+  hDate: HDate,
+  il: boolean,
+  locale: string
+): string | null {
   try {
     // Get the Saturday of this week for parsha calculation
-    const saturday = hDate.onOrAfter(7); // 7 = Saturday
+    const saturday = hDate.onOrAfter(6); // 6 = Saturday
     const events = HebrewCalendar.calendar({
       start: saturday,
       end: saturday,
       sedrot: true,
+      il,
       isHebrewYear: false,
     });
 
     const parshaEvent = events.find((event) =>
       event.getCategories().includes("parashat")
     );
-    return parshaEvent ? parshaEvent.render("en") : null;
+    return parshaEvent ? parshaEvent.render(locale) : null;
   } catch {
     return null;
   }
 }
 
-export function listJewishHolidays(year: number) {
+export function listJewishHolidays(
+  year?: number,
+  options: ListHolidaysOptions = {}
+): ListJewishHolidaysResult {
   try {
-    // Get all holidays for the year
-    const events = HebrewCalendar.calendar({ year, isHebrewYear: false });
+    const period = resolvePeriod({ ...options, year });
+    if (!period.success) {
+      return { error: period.error };
+    }
 
-    // Filter for actual holidays (not just calendar events)
-    const holidays = events
-      .map((event: Event) => {
-        const hd = event.getDate();
-        const gregorianDate = hd.greg();
+    // Get all holidays for the year or date range
+    const il = resolveIsrael(options.il, options.location);
+    const locale = hebcalLocale(options.language);
+    const events = HebrewCalendar.calendar({ ...period.calendarOptions, il });
 
-        return {
-          name: event.render("en"),
-          gregorianDate: gregorianDate.toLocaleDateString("en-US", {
-            month: "short",
-            day: "numeric",
-          }),
-          hebrewDate: hd.toString(),
-          category: event.getCategories().join(", "),
-        };
-      })
-      .sort((a, b) => {
-        // Sort by date
-        const dateA = new Date(a.gregorianDate + `, ${year}`);
-        const dateB = new Date(b.gregorianDate + `, ${year}`);
-        return dateA.getTime() - dateB.getTime();
-      });
+    const categories = options.categories?.length
+      ? options.categories
+      : undefined;
+    const holidays = selectHolidays(events, categories).map((event: Event) => {
+      const hd = event.getDate();
+      const gregorianDate = hd.greg();
+
+      return {
+        name: event.render(locale),
+        gregorianDate: gregorianDate.toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        }),
+        isoDate: toIsoDate(hd),
+        hebrewDate: hd.toString(),
+        category: event.getCategories().join(", "),
+      };
+    });
 
     return {
       year,
+      calendar: period.calendar,
+      range: period.range,
+      categories: categories ?? null,
+      il,
+      schedule: describeSchedule(il),
       totalHolidays: holidays.length,
       holidays,
     };
@@ -409,72 +490,2488 @@ export function listJewishHolidays(year: number) {
   }
 }
 
-// Tool definitions for AI SDK
-export const aiTools = {
-  findJewishHoliday: {
-    description:
-      "Find a specific Jewish holiday by name and year, returns all the information about the holiday including candle lighting time and zmanim",
-    inputSchema: z.object({
-      year: z
-        .number()
-        .describe("The year to search for the holiday (Gregorian year)"),
-      holidayName: z
-        .string()
-        .describe(
-          "The name of the Jewish holiday to find (e.g., 'Rosh Hashana', 'Yom Kippur', 'Passover')"
-        ),
+// Keeps the events in the requested categories (all of them when none are
+// given), in chronological order
+export function selectHolidays(
+  events: Event[],
+  categories?: HolidayCategory[]
+): Event[] {
+  return events
+    .filter(
+      (event: Event) =>
+        !categories ||
+        event
+          .getCategories()
+          .some((category) => categories.includes(category as HolidayCategory))
+    )
+    .sort((a, b) => a.getDate().abs() - b.getDate().abs());
+}
+
+export function getZmanim(
+  date: string,
+  locationInput?: LocationInput
+): ZmanimResult {
+  try {
+    const day = parseIsoDate(date);
+    if (!day) {
+      return {
+        success: false,
+        error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+      };
+    }
+
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const tzid = location.getTzid();
+    const zmanim = new Zmanim(location, day, false);
+
+    // Times are formatted as ISO 8601 with the location's UTC offset
+    const iso = (time: Date) =>
+      isNaN(time.getTime()) ? null : Zmanim.formatISOWithTimeZone(tzid, time);
+
+    return {
+      success: true,
+      date,
+      hebrewDate: new HDate(day).toString(),
+      location: describeLocation(location),
+      zmanim: {
+        alotHaShachar: iso(zmanim.alotHaShachar()),
+        misheyakir: iso(zmanim.misheyakir()),
+        sunrise: iso(zmanim.sunrise()),
+        sofZmanShmaMGA: iso(zmanim.sofZmanShmaMGA()),
+        sofZmanShma: iso(zmanim.sofZmanShma()),
+        sofZmanTfillaMGA: iso(zmanim.sofZmanTfillaMGA()),
+        sofZmanTfilla: iso(zmanim.sofZmanTfilla()),
+        chatzot: iso(zmanim.chatzot()),
+        minchaGedola: iso(zmanim.minchaGedola()),
+        minchaKetana: iso(zmanim.minchaKetana()),
+        plagHaMincha: iso(zmanim.plagHaMincha()),
+        sunset: iso(zmanim.sunset()),
+        tzeit: iso(zmanim.tzeit()),
+      },
+      notes: {
+        sofZmanShma: "Sof zman kriat shema per the GRA",
+        sofZmanShmaMGA: "Sof zman kriat shema per the Magen Avraham",
+        sofZmanTfilla: "Sof zman tefilla per the GRA",
+        sofZmanTfillaMGA: "Sof zman tefilla per the Magen Avraham",
+        tzeit: "Nightfall when the sun is 8.5 degrees below the horizon",
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error calculating zmanim: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+export interface ResolveDateOptions {
+  // The user's own timezone, for what "today" is. Defaults to the location's
+  timezone?: string;
+  il?: boolean;
+  language?: Language;
+  // The current time. Defaults to the server clock
+  now?: Date;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+  shabbat: 6,
+  shabbos: 6,
+  shabbes: 6,
+  sabbath: 6,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+};
+
+// How far from today a holiday name is looked up, so both the next and the
+// last occurrence are found
+const HOLIDAY_SEARCH_DAYS = 400;
+
+// How far past a requested year holidays are looked up, enough for the
+// longest one (Chanukah) to be seen whole
+const YEAR_EDGE_DAYS = 10;
+
+const WEEKDAY = `(${Object.keys(WEEKDAYS).join("|")})`;
+const UNIT = "(day|week|month|year)s?";
+
+type DateUnit = "day" | "week" | "month" | "year";
+
+// What a phrase points at. A holiday spans several days: counting "before" it
+// starts from the first, counting "after" it from the last
+interface DateReference {
+  first: HDate;
+  last: HDate;
+  description: string;
+  // Months and years are counted in this calendar
+  calendar: CalendarType;
+}
+
+interface PhraseContext {
+  today: HDate;
+  il: boolean;
+  locale: string;
+}
+
+type PhraseResolution =
+  | { success: true; date: HDate; explanation: string }
+  | { success: false; error: string };
+
+// Turns phrases like "next Shabbos", "two weeks before Pesach", "the Sunday
+// after Sukkos" or "13 years after 5 Iyar 5772" into a date, counting from
+// today in the location's timezone
+export function resolveDate(
+  phrase: string,
+  locationInput?: LocationInput,
+  options: ResolveDateOptions = {}
+): ResolveDateResult {
+  try {
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const timezone = options.timezone ?? location.getTzid();
+    const il = options.il ?? location.getIsrael();
+    const locale = hebcalLocale(options.language);
+    const today = todayIn(timezone, options.now);
+
+    const resolution = resolvePhrase(normalizePhrase(phrase), {
+      today,
+      il,
+      locale,
+    });
+    if (!resolution.success) {
+      return { success: false, error: resolution.error };
+    }
+
+    return {
+      success: true,
+      phrase,
+      date: describeDay(resolution.date),
+      today: describeDay(today),
+      timezone,
+      explanation: resolution.explanation,
+      parsha: getWeeklyParsha(resolution.date, il, locale),
+      schedule: describeSchedule(il),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error resolving date: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+// The calendar day it is now in a timezone, which can differ from the
+// server's own day
+export function todayIn(timezone: string, now = new Date()): HDate {
+  const [year, month, day] = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .format(now)
+    .split("-")
+    .map(Number);
+  return new HDate(new Date(year, month - 1, day));
+}
+
+function describeDay(hd: HDate): DayDescription {
+  const date = hd.greg();
+  return {
+    iso: toIsoDate(hd),
+    formatted: date.toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
     }),
-    execute: async ({
+    dayOfWeek: date.toLocaleDateString("en-US", { weekday: "long" }),
+    hebrewDate: hd.toString(),
+    hebrewYear: hd.getFullYear(),
+  };
+}
+
+function normalizePhrase(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[?.!]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:on |the )+/, "");
+}
+
+function resolvePhrase(text: string, context: PhraseContext): PhraseResolution {
+  const { today } = context;
+
+  // A bar or bat mitzvah follows the Hebrew birth date, which only the user
+  // can give, and getHebrewAnniversaries handles the leap year cases
+  if (/\b(?:bar|bat|bas) mitzv?ah\b/.test(text)) {
+    return {
+      success: false,
+      error:
+        "A bar or bat mitzvah date depends on the birth date. Ask for it and use getHebrewAnniversaries, which returns the bar and bat mitzvah dates and their parsha.",
+    };
+  }
+
+  // "in 3 days", "in two weeks"
+  let match = text.match(new RegExp(`^in (\\w+) ${UNIT}$`));
+  if (match) {
+    const count = parseCount(match[1]);
+    if (count === undefined) {
+      return unreadableCount(match[1]);
+    }
+    const unit = match[2] as DateUnit;
+    return {
+      success: true,
+      date: shiftDate(today, count, unit, "gregorian"),
+      explanation: `${plural(count, unit)} after today`,
+    };
+  }
+
+  // "3 days ago"
+  match = text.match(new RegExp(`^(\\w+) ${UNIT} ago$`));
+  if (match) {
+    const count = parseCount(match[1]);
+    if (count === undefined) {
+      return unreadableCount(match[1]);
+    }
+    const unit = match[2] as DateUnit;
+    return {
+      success: true,
+      date: shiftDate(today, -count, unit, "gregorian"),
+      explanation: `${plural(count, unit)} before today`,
+    };
+  }
+
+  // "two weeks before Pesach", "the day after Yom Kippur",
+  // "13 years after 5 Iyar 5772"
+  match = text.match(
+    new RegExp(`^(?:(\\w+) )?${UNIT} (before|after|from) (.+)$`)
+  );
+  if (match) {
+    const count = match[1] === undefined ? 1 : parseCount(match[1]);
+    if (count === undefined) {
+      return unreadableCount(match[1]);
+    }
+    const unit = match[2] as DateUnit;
+    const reference = resolveReference(match[4], context);
+    if (!reference.success) {
+      return reference;
+    }
+    const { first, last, description, calendar } = reference.reference;
+    const before = match[3] === "before";
+    return {
+      success: true,
+      date: before
+        ? shiftDate(first, -count, unit, calendar)
+        : shiftDate(last, count, unit, calendar),
+      explanation: `${plural(count, unit)} ${before ? "before" : "after"} ${description}`,
+    };
+  }
+
+  // "the Sunday after Sukkos", "Friday before Pesach"
+  match = text.match(new RegExp(`^${WEEKDAY} (before|after) (.+)$`));
+  if (match) {
+    const weekday = WEEKDAYS[match[1]];
+    const reference = resolveReference(match[3], context);
+    if (!reference.success) {
+      return reference;
+    }
+    const { first, last, description } = reference.reference;
+    const before = match[2] === "before";
+    return {
+      success: true,
+      date: before ? first.before(weekday) : last.after(weekday),
+      explanation: `the ${before ? "last" : "first"} ${capitalize(match[1])} ${match[2]} ${description}`,
+    };
+  }
+
+  // "next Shabbos" is the coming one after today; "this Shabbos" (or just
+  // "Shabbos") is today if it's Shabbos
+  match = text.match(
+    new RegExp(`^(?:(this|next|coming|last|previous) )?${WEEKDAY}$`)
+  );
+  if (match) {
+    const weekday = WEEKDAYS[match[2]];
+    const which = match[1] ?? "this";
+    const date =
+      which === "next"
+        ? today.after(weekday)
+        : which === "last" || which === "previous"
+          ? today.before(weekday)
+          : today.onOrAfter(weekday);
+    return {
+      success: true,
+      date,
+      explanation: `${which} ${capitalize(match[2])}, counting from today`,
+    };
+  }
+
+  const reference = resolveReference(text, context);
+  if (!reference.success) {
+    return reference;
+  }
+  return {
+    success: true,
+    date: reference.reference.first,
+    explanation: reference.reference.description,
+  };
+}
+
+// A day on its own: "today", "2024-10-12", "5 Iyar 5772" or a holiday
+function resolveReference(
+  text: string,
+  context: PhraseContext
+):
+  | { success: true; reference: DateReference }
+  | { success: false; error: string } {
+  const relative: Record<string, number> = {
+    today: 0,
+    tomorrow: 1,
+    yesterday: -1,
+  };
+  if (text in relative) {
+    const day = context.today.add(relative[text], "d");
+    return {
+      success: true,
+      reference: {
+        first: day,
+        last: day,
+        description: `${text} (${toIsoDate(day)})`,
+        calendar: "gregorian",
+      },
+    };
+  }
+
+  const gregorian = parseIsoDate(text);
+  if (gregorian) {
+    const day = new HDate(gregorian);
+    return {
+      success: true,
+      reference: {
+        first: day,
+        last: day,
+        description: toIsoDate(day),
+        calendar: "gregorian",
+      },
+    };
+  }
+
+  const holiday = findHolidayOccurrence(text, context);
+  if (holiday) {
+    return { success: true, reference: holiday };
+  }
+
+  const hebrew = parseHebrewDate(text);
+  if (hebrew.success) {
+    const day = new HDate(hebrew.day, hebrew.month, hebrew.year);
+    return {
+      success: true,
+      reference: {
+        first: day,
+        last: day,
+        description: `${day.toString()} (${toIsoDate(day)})`,
+        calendar: "hebrew",
+      },
+    };
+  }
+  // Dates with a number in them were most likely meant as Hebrew dates, and
+  // the parser says what's wrong with them
+  if (/\d|[א-ת]/.test(text)) {
+    return { success: false, error: hebrew.error };
+  }
+  return {
+    success: false,
+    error: `Could not find a date or holiday called "${text}". Try phrases like "next Shabbos", "two weeks before Pesach", "the Sunday after Sukkos" or "13 years after 5 Iyar 5772".`,
+  };
+}
+
+// "Pesach", "next Chanukah", "last Purim", "Sukkot 5786", "Shavuos 2026".
+// Without a year this is the occurrence still to come (or under way), or the
+// most recent one for "last"
+function findHolidayOccurrence(
+  text: string,
+  { today, il, locale }: PhraseContext
+): DateReference | undefined {
+  const match = text.match(
+    /^(?:(this|next|coming|last|previous) )?(.+?)(?: (\d{4}))?$/
+  );
+  if (!match) {
+    return undefined;
+  }
+  const [, which, name, yearText] = match;
+  const year = yearText ? Number(yearText) : undefined;
+
+  let calendarOptions: CalOptions;
+  let yearRange: { start: HDate; end: HDate } | undefined;
+  if (year !== undefined) {
+    const period = resolvePeriod({
       year,
-      holidayName,
-    }: {
-      year: number;
-      holidayName: string;
-    }) => {
-      return findJewishHoliday(year, holidayName);
-    },
-  },
-  todaysDate: {
-    description: "Find out what date is right now",
-    inputSchema: z.object({}),
-    execute: async () => {
-      return new Date().toISOString();
-    },
-  },
-  listJewishHolidays: {
-    description: "List all Jewish holidays for a given year",
-    inputSchema: z.object({
-      year: z
-        .number()
-        .describe("The year to get holidays for (Gregorian year)"),
-    }),
-    execute: async ({ year }: { year: number }) => {
-      return listJewishHolidays(year);
-    },
-  },
-  convertDate: {
+      calendar: year > 3000 ? "hebrew" : "gregorian",
+    });
+    if (!period.success) {
+      return undefined;
+    }
+    yearRange = {
+      start: new HDate(parseIsoDate(period.range.start)!),
+      end: new HDate(parseIsoDate(period.range.end)!),
+    };
+    // A little past either end, so a holiday that crosses into the year is
+    // seen whole rather than starting on its first day
+    calendarOptions = {
+      start: yearRange.start.subtract(YEAR_EDGE_DAYS, "d"),
+      end: yearRange.end.add(YEAR_EDGE_DAYS, "d"),
+    };
+  } else {
+    calendarOptions = {
+      start: today.subtract(HOLIDAY_SEARCH_DAYS, "d"),
+      end: today.add(HOLIDAY_SEARCH_DAYS, "d"),
+    };
+  }
+
+  const holidays = selectHolidays(
+    HebrewCalendar.calendar({ ...calendarOptions, il })
+  );
+  // Other spellings ("Passover", "Succos", "חנוכה") only when they are exact,
+  // so a date phrase is never read as a holiday it merely resembles
+  const names = [
+    name,
+    ...rankHolidayNames(
+      name,
+      holidays.map((event) => event.basename()),
+      locale
+    )
+      .filter((match) => match.score === 1)
+      .map((match) => match.basename),
+  ];
+  const matching = holidays.filter((event) =>
+    [event.render("en"), event.render("ashkenazi"), event.render(locale)].some(
+      (rendered) => names.some((holiday) => isHolidayName(rendered, holiday))
+    )
+  );
+
+  // Consecutive days with the same holiday (Pesach I, Pesach II...) are one
+  // occurrence
+  const occurrences: { first: Event; last: Event }[] = [];
+  for (const event of matching) {
+    const current = occurrences[occurrences.length - 1];
+    if (current && event.getDate().abs() - current.last.getDate().abs() <= 1) {
+      current.last = event;
+    } else {
+      occurrences.push({ first: event, last: event });
+    }
+  }
+
+  // A year means the occurrence that starts in it: Chanukah 2025 is in
+  // December, not the end of the Chanukah that began in 2024
+  let occurrence: { first: Event; last: Event } | undefined;
+  if (yearRange) {
+    const { start, end } = yearRange;
+    const inYear = occurrences.filter(
+      ({ first, last }) =>
+        last.getDate().abs() >= start.abs() &&
+        first.getDate().abs() <= end.abs()
+    );
+    occurrence =
+      inYear.find(({ first }) => first.getDate().abs() >= start.abs()) ??
+      inYear[0];
+  } else {
+    occurrence =
+      which === "last" || which === "previous"
+        ? occurrences
+            .filter(({ last }) => last.getDate().abs() < today.abs())
+            .pop()
+        : occurrences.find(({ last }) => last.getDate().abs() >= today.abs());
+  }
+  if (!occurrence) {
+    return undefined;
+  }
+
+  const first = occurrence.first.getDate();
+  const last = occurrence.last.getDate();
+  return {
+    first,
+    last,
     description:
-      "Convert dates between Gregorian and Hebrew calendars. Supports both directions with comprehensive date information including parsha, seasons, and Jewish calendar details.",
-    inputSchema: z.object({
-      inputDate: z
-        .string()
-        .describe(
-          "The date to convert. For Gregorian: use YYYY-MM-DD format (e.g., '2024-10-03'). For Hebrew: use formats like '15 Tishrei 5785' or '15/1/5785'"
-        ),
-      fromCalendar: z
-        .enum(["gregorian", "hebrew"])
-        .describe(
-          "The source calendar system - 'gregorian' to convert from Gregorian to Hebrew, 'hebrew' to convert from Hebrew to Gregorian"
-        ),
-    }),
-    execute: async ({
-      inputDate,
-      fromCalendar,
-    }: {
-      inputDate: string;
-      fromCalendar: "gregorian" | "hebrew";
-    }) => {
-      return convertDate(inputDate, fromCalendar);
-    },
-  },
-};
+      first.abs() === last.abs()
+        ? `${occurrence.first.render(locale)} (${toIsoDate(first)})`
+        : `${occurrence.first.render(locale)} to ${occurrence.last.render(locale)} (${toIsoDate(first)} to ${toIsoDate(last)})`,
+    calendar: "hebrew",
+  };
+}
+
+// "Pesach" matches "Pesach" and "Pesach I", "Pesach VII" or "Chanukah: 3
+// Candles", but not "Erev Pesach" or "Pesach Sheni"
+function isHolidayName(rendered: string, name: string): boolean {
+  const simplify = (text: string) =>
+    text.toLowerCase().replace(/['’]/g, "").replace(/\s+/g, " ").trim();
+  const holiday = simplify(rendered);
+  const query = simplify(name);
+  if (holiday === query) {
+    return true;
+  }
+  return (
+    holiday.startsWith(query) &&
+    /^(?: [ivx]+\b| \d|:| \()/.test(holiday.slice(query.length))
+  );
+}
+
+function shiftDate(
+  day: HDate,
+  count: number,
+  unit: DateUnit,
+  calendar: CalendarType
+): HDate {
+  if (unit === "day" || unit === "week") {
+    return day.add(count, unit === "day" ? "d" : "w");
+  }
+  if (calendar === "hebrew") {
+    return day.add(count, unit === "month" ? "M" : "y");
+  }
+  // Gregorian months and years, keeping the day of the month where it
+  // exists (January 31 plus a month is the last day of February)
+  const date = day.greg();
+  const target = new Date(
+    date.getFullYear() + (unit === "year" ? count : 0),
+    date.getMonth() + (unit === "month" ? count : 0),
+    1
+  );
+  const lastDay = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0
+  ).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return new HDate(target);
+}
+
+function parseCount(word: string): number | undefined {
+  if (/^\d+$/.test(word)) {
+    return Number(word);
+  }
+  return Object.hasOwn(NUMBER_WORDS, word) ? NUMBER_WORDS[word] : undefined;
+}
+
+function unreadableCount(word: string): PhraseResolution {
+  return {
+    success: false,
+    error: `Could not read "${word}" as a number. Use digits or a word like "two".`,
+  };
+}
+
+function plural(count: number, unit: DateUnit): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export interface TodaysDateOptions {
+  // The user's own timezone, for the local date and time. Defaults to the
+  // location's
+  timezone?: string;
+  il?: boolean;
+  language?: Language;
+  // The current time. Defaults to the server clock
+  now?: Date;
+}
+
+// The user's local date and time, the Hebrew date (which starts at sunset)
+// and whether Shabbat or Yom Tov is in effect at the location right now
+export function todaysDate(
+  locationInput?: LocationInput,
+  options: TodaysDateOptions = {}
+): TodaysDateResult {
+  try {
+    const nearby =
+      !locationInput?.city &&
+      locationInput?.latitude === undefined &&
+      options.timezone
+        ? cityForTimezone(options.timezone)
+        : undefined;
+    const resolved = nearby
+      ? { success: true as const, location: nearby }
+      : resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const timezone = options.timezone ?? location.getTzid();
+    const il = options.il ?? location.getIsrael();
+    const locale = hebcalLocale(options.language);
+    const now = options.now ?? new Date();
+    const today = todayIn(timezone, now);
+
+    const zmanim = new Zmanim(location, today.greg(), false);
+    const sunset = zmanim.sunset();
+    const tzeit = zmanim.tzeit();
+    const iso = (time: Date) =>
+      isNaN(time.getTime())
+        ? null
+        : Zmanim.formatISOWithTimeZone(location.getTzid(), time);
+    const afterSunset = !isNaN(sunset.getTime()) && now >= sunset;
+    const afterTzeit = !isNaN(tzeit.getTime()) && now >= tzeit;
+    const hebrewDate = afterSunset ? today.next() : today;
+
+    // Shabbat and Yom Tov run from candle lighting to havdalah. The last of
+    // those before now tells whether one is in effect, and the day after its
+    // date is the day being kept (candles on Friday are for Shabbat)
+    const events = HebrewCalendar.calendar({
+      start: today.subtract(3, "d"),
+      end: today.add(1, "d"),
+      il,
+      location,
+      candlelighting: true,
+      havdalahMins: HAVDALAH_MINS,
+    });
+    const lastMarker = events
+      .filter(
+        (event): event is TimedEvent =>
+          event instanceof TimedEvent &&
+          event
+            .getCategories()
+            .some((category) => ["candles", "havdalah"].includes(category)) &&
+          event.eventTime <= now
+      )
+      .sort((a, b) => a.eventTime.getTime() - b.eventTime.getTime())
+      .pop();
+    const holyDay = lastMarker?.getCategories().includes("candles")
+      ? lastMarker.getDate().next()
+      : undefined;
+    const yomTov = holyDay
+      ? events
+          .filter(
+            (event) =>
+              !(event instanceof TimedEvent) &&
+              event.getDate().isSameDate(holyDay) &&
+              (event.getFlags() & flags.CHAG) !== 0
+          )
+          .map((event) => event.render(locale))
+      : [];
+
+    const date = today.greg();
+    return {
+      success: true,
+      now: now.toISOString(),
+      timezone,
+      localTime: Zmanim.formatISOWithTimeZone(timezone, now),
+      date: toIsoDate(today),
+      gregorianDate: {
+        formatted: date.toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        }),
+        iso: toIsoDate(today),
+        dayOfWeek: date.toLocaleDateString("en-US", { weekday: "long" }),
+      },
+      hebrewDate: {
+        formatted: hebrewDate.toString(),
+        hebrewYear: hebrewDate.getFullYear(),
+        hebrewMonth: hebrewDate.getMonthName(),
+        hebrewDay: hebrewDate.getDate(),
+      },
+      afterSunset,
+      afterTzeit,
+      sunset: iso(sunset),
+      tzeit: iso(tzeit),
+      isShabbat: holyDay?.getDay() === 6,
+      isYomTov: yomTov.length > 0,
+      yomTov,
+      location: describeLocation(location),
+      schedule: describeSchedule(il),
+      note: `The Hebrew date changes at sunset; between sunset and tzeit (nightfall) is bein hashmashos. Shabbat and Yom Tov count from candle lighting until havdalah, ${HAVDALAH_MINS} minutes after sunset.`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting today's date: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+export type AnniversaryType = "yahrzeit" | "birthday";
+
+export interface AnniversaryOptions {
+  // The death or birth was after sunset, so on the next Hebrew date
+  afterSunset?: boolean;
+  // How many upcoming anniversaries to list (default 5)
+  years?: number;
+  // The user's timezone, for which anniversaries are still to come
+  timezone?: string;
+  il?: boolean;
+  // Without il, the Israel or Diaspora schedule of this location
+  location?: LocationInput;
+  language?: Language;
+  now?: Date;
+}
+
+const DEFAULT_ANNIVERSARY_YEARS = 5;
+const MAX_ANNIVERSARY_YEARS = 30;
+
+// Yahrzeits and Hebrew birthdays from the original Gregorian date, following
+// hebcal's rules for Adar in leap years and for 30 Cheshvan and 30 Kislev,
+// which some years don't have. Birthdays also get the bar and bat mitzvah
+export function getHebrewAnniversaries(
+  date: string,
+  type: AnniversaryType,
+  options: AnniversaryOptions = {}
+): HebrewAnniversariesResult {
+  try {
+    const day = parseIsoDate(date);
+    if (!day) {
+      return {
+        success: false,
+        error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+      };
+    }
+    const years = options.years ?? DEFAULT_ANNIVERSARY_YEARS;
+    if (
+      !Number.isInteger(years) ||
+      years < 1 ||
+      years > MAX_ANNIVERSARY_YEARS
+    ) {
+      return {
+        success: false,
+        error: `years must be a whole number from 1 to ${MAX_ANNIVERSARY_YEARS}.`,
+      };
+    }
+    const afterSunset = options.afterSunset ?? false;
+    const il = resolveIsrael(options.il, options.location);
+    const locale = hebcalLocale(options.language);
+    const today = todayIn(
+      options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      options.now
+    );
+
+    const original = afterSunset ? new HDate(day).next() : new HDate(day);
+    if (type === "yahrzeit" && original.abs() > today.abs()) {
+      return {
+        success: false,
+        error: `${date} is in the future, so there is no yahrzeit yet.`,
+      };
+    }
+
+    // hebcal modifies an HDate passed to it, so it gets the Gregorian date
+    const anniversaryIn = (hyear: number): HDate | undefined => {
+      const anniversary =
+        type === "yahrzeit"
+          ? HebrewCalendar.getYahrzeit(hyear, original.greg())
+          : HebrewCalendar.getBirthdayOrAnniversary(hyear, original.greg());
+      return anniversary ? new HDate(anniversary) : undefined;
+    };
+
+    const anniversaries = [];
+    let hyear = Math.max(today.getFullYear(), original.getFullYear() + 1);
+    while (anniversaries.length < years) {
+      const anniversary = anniversaryIn(hyear);
+      if (anniversary && anniversary.abs() >= today.abs()) {
+        anniversaries.push({
+          ...describeAnniversary(anniversary),
+          count: hyear - original.getFullYear(),
+        });
+      }
+      hyear++;
+    }
+
+    const comingOfAge = (age: number) => {
+      const anniversary = anniversaryIn(original.getFullYear() + age)!;
+      const shabbat = anniversary.onOrAfter(6);
+      return {
+        ...describeAnniversary(anniversary),
+        shabbat: toIsoDate(shabbat),
+        parsha: getWeeklyParsha(shabbat, il, locale),
+      };
+    };
+
+    return {
+      success: true,
+      type,
+      original: {
+        gregorianDate: toIsoDate(new HDate(day)),
+        afterSunset,
+        hebrewDate: original.toString(),
+      },
+      anniversaries,
+      ...(type === "birthday"
+        ? { barMitzvah: comingOfAge(13), batMitzvah: comingOfAge(12) }
+        : {}),
+      notes: anniversaryNotes(original, type, afterSunset, date),
+      schedule: describeSchedule(il),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error calculating anniversaries: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+function describeAnniversary(hd: HDate) {
+  const date = hd.greg();
+  return {
+    hebrewDate: hd.toString(),
+    hebrewYear: hd.getFullYear(),
+    gregorianDate: date.toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+    iso: toIsoDate(hd),
+    dayOfWeek: date.toLocaleDateString("en-US", { weekday: "long" }),
+    beginsEvening: toIsoDate(hd.prev()),
+  };
+}
+
+// The rules that move this date in some years, in words the model can pass on
+function anniversaryNotes(
+  original: HDate,
+  type: AnniversaryType,
+  afterSunset: boolean,
+  date: string
+): string[] {
+  const notes: string[] = [];
+  const day = original.getDate();
+  const month = original.getMonth();
+  const leap = original.isLeapYear();
+  const what = type === "yahrzeit" ? "the yahrzeit" : "the birthday";
+
+  if (afterSunset) {
+    notes.push(
+      `After sunset on ${date}, so the Hebrew date is ${original.toString()}, the next day.`
+    );
+  }
+  if (month === months.ADAR_I && !leap) {
+    notes.push(
+      type === "yahrzeit"
+        ? "Died in Adar of a regular year: in leap years the yahrzeit is in Adar I, the common Ashkenazi custom. Some observe it in Adar II, or in both."
+        : "Born in Adar of a regular year: in leap years the birthday, and so a bar or bat mitzvah, is in Adar II."
+    );
+  } else if (month === months.ADAR_II) {
+    notes.push(`Adar II of a leap year: in regular years ${what} is in Adar.`);
+  } else if (month === months.ADAR_I) {
+    notes.push(`Adar I of a leap year: in regular years ${what} is in Adar.`);
+    if (day === 30) {
+      notes.push(
+        type === "yahrzeit"
+          ? "Regular years have no 30 Adar, so the yahrzeit is 30 Sh'vat in those years."
+          : "Regular years have no 30 Adar, so the birthday is 1 Nisan in those years."
+      );
+    }
+  }
+  if (day === 30 && (month === months.CHESHVAN || month === months.KISLEV)) {
+    const name = original.getMonthName();
+    const next = month === months.CHESHVAN ? "Kislev" : "Tevet";
+    notes.push(
+      type === "yahrzeit"
+        ? `30 ${name} doesn't occur every year. In years without it the yahrzeit is 29 ${name} or 1 ${next}, depending on whether the first yahrzeit year had a 30 ${name}.`
+        : `30 ${name} doesn't occur every year. In years without it the birthday is 1 ${next}.`
+    );
+  }
+  return notes;
+}
+
+// Which Shabbatot a weekly tool covers: every one in start to end, or the
+// one on or after a date (default today in the timezone)
+interface ShabbatRangeOptions {
+  start?: string;
+  end?: string;
+  timezone?: string;
+  now?: Date;
+}
+
+export interface ParshaOptions extends ShabbatRangeOptions {
+  il?: boolean;
+  // Without il, the Israel or Diaspora schedule of this location
+  location?: LocationInput;
+  language?: Language;
+}
+
+// The Torah and haftarah readings for the Shabbat on or after a date (default
+// today), or for every Shabbat in a range. On a Shabbat that is also a
+// holiday, the holiday's reading replaces the parsha
+export function getParsha(
+  date: string | undefined,
+  options: ParshaOptions = {}
+): ParshaResult {
+  try {
+    const il = resolveIsrael(options.il, options.location);
+    const locale = hebcalLocale(options.language);
+
+    const range = resolveShabbatRange(date, options);
+    if (!range.success) {
+      return { success: false, error: range.error };
+    }
+    const { first, last } = range;
+
+    const events = HebrewCalendar.calendar({
+      start: first,
+      end: last,
+      sedrot: true,
+      il,
+    });
+    const readings = [];
+    for (
+      let shabbat = first.onOrAfter(6);
+      shabbat.abs() <= last.abs();
+      shabbat = shabbat.add(1, "week")
+    ) {
+      const leyning = getLeyningOnDate(shabbat, il) as Leyning | undefined;
+      if (!leyning) {
+        continue;
+      }
+      const onShabbat = events.filter((event) =>
+        event.getDate().isSameDate(shabbat)
+      );
+      readings.push(describeReading(shabbat, leyning, onShabbat, locale));
+    }
+
+    return {
+      success: true,
+      range: { start: toIsoDate(first), end: toIsoDate(last) },
+      il,
+      schedule: describeSchedule(il),
+      readings,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting the parsha: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+function describeReading(
+  shabbat: HDate,
+  leyning: Leyning,
+  events: Event[],
+  locale: string
+) {
+  const reason = leyning.reason ?? {};
+  const describe = (aliyah: Aliyah, key: string) => ({
+    reading: formatAliyahWithBook(aliyah),
+    verses: aliyah.v ?? null,
+    reason: reason[key] ?? null,
+  });
+
+  const parshaEvent = events.find((event) =>
+    event.getCategories().includes("parashat")
+  );
+  const aliyot = Object.entries(leyning.fullkriyah)
+    .filter(([, aliyah]) => aliyah)
+    .map(([key, aliyah]) => ({
+      aliyah: key === "M" ? "maftir" : key,
+      ...describe(aliyah, key),
+    }));
+  const maftir = leyning.fullkriyah.M;
+
+  return {
+    date: toIsoDate(shabbat),
+    gregorianDate: shabbat.greg().toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+    hebrewDate: shabbat.toString(),
+    name: parshaEvent ? parshaEvent.render(locale) : leyning.name.en,
+    hebrewName: leyning.name.he,
+    type:
+      leyning.type === "holiday" ? ("holiday" as const) : ("shabbat" as const),
+    parsha: leyning.parsha ?? null,
+    specialShabbat: events
+      .filter((event) => event.getFlags() & flags.SPECIAL_SHABBAT)
+      .map((event) => event.render(locale)),
+    summary: leyning.summary,
+    aliyot,
+    maftir: maftir ? describe(maftir, "M") : null,
+    haftarah: {
+      ashkenazi: leyning.haftara,
+      // Sephardim read the same haftarah unless hebcal lists another
+      sephardi: leyning.sephardic ?? leyning.haftara,
+      reason: reason.haftara ?? null,
+    },
+    note: leyning.note ?? null,
+  };
+}
+
+export interface ShabbatTimesOptions extends ShabbatRangeOptions {
+  // Havdalah this many minutes after sunset, or when the sun is this many
+  // degrees below the horizon. Defaults to HAVDALAH_MINS minutes
+  havdalahMins?: number;
+  havdalahDegrees?: number;
+  il?: boolean;
+  language?: Language;
+}
+
+// Candle lighting, havdalah, the parsha and the announcements for each
+// Shabbat in the range at a location, including Yom Tov that falls on it or
+// begins when it ends
+export function getShabbatTimes(
+  date: string | undefined,
+  locationInput?: LocationInput,
+  options: ShabbatTimesOptions = {}
+): ShabbatTimesResult {
+  try {
+    if (
+      options.havdalahMins !== undefined &&
+      options.havdalahDegrees !== undefined
+    ) {
+      return {
+        success: false,
+        error: "Give havdalah in minutes after sunset or in degrees, not both.",
+      };
+    }
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const range = resolveShabbatRange(date, {
+      ...options,
+      timezone: options.timezone ?? location.getTzid(),
+    });
+    if (!range.success) {
+      return { success: false, error: range.error };
+    }
+    const { first, last } = range;
+    const il = options.il ?? location.getIsrael();
+    const locale = hebcalLocale(options.language);
+    const havdalah =
+      options.havdalahDegrees !== undefined
+        ? { minutes: null, degrees: options.havdalahDegrees }
+        : { minutes: options.havdalahMins ?? HAVDALAH_MINS, degrees: null };
+
+    // From the first Friday to a week past the last Shabbat, for the Rosh
+    // Chodesh that Shabbat Mevarchim announces
+    const events = HebrewCalendar.calendar({
+      start: first.onOrAfter(6).prev(),
+      end: last.add(8, "d"),
+      il,
+      candlelighting: true,
+      location,
+      ...(havdalah.degrees !== null
+        ? { havdalahDeg: havdalah.degrees }
+        : { havdalahMins: havdalah.minutes }),
+      sedrot: true,
+      shabbatMevarchim: true,
+    });
+    const iso = (event: Event | undefined) =>
+      event instanceof TimedEvent
+        ? Zmanim.formatISOWithTimeZone(location.getTzid(), event.eventTime)
+        : null;
+    const formatTime = (event: TimedEvent) =>
+      event.eventTime.toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: location.getTzid(),
+      });
+
+    const shabbatot = [];
+    for (
+      let shabbat = first.onOrAfter(6);
+      shabbat.abs() <= last.abs();
+      shabbat = shabbat.add(1, "week")
+    ) {
+      const onDay = (hd: HDate) =>
+        events.filter((event) => event.getDate().isSameDate(hd));
+      const has = (event: Event, category: string) =>
+        event.getCategories().includes(category);
+      const friday = onDay(shabbat.prev());
+      const saturday = onDay(shabbat);
+
+      const candles = friday.find((event) => has(event, "candles"));
+      const havdalahEvent = saturday.find((event) => has(event, "havdalah"));
+      // Yom Tov right after Shabbat is lit for, not ended with havdalah
+      const yomTovCandles = saturday.find((event) => has(event, "candles"));
+      const parsha = saturday.find((event) => has(event, "parashat"));
+      const mevarchim = saturday.find((event) => has(event, "mevarchim"));
+      const holidays = saturday.filter(
+        (event) =>
+          (has(event, "holiday") || has(event, "roshchodesh")) &&
+          !(event.getFlags() & flags.SPECIAL_SHABBAT)
+      );
+
+      const notes: string[] = [];
+      if (friday.some((event) => event.getFlags() & flags.CHAG)) {
+        notes.push(
+          "Friday is Yom Tov, so Shabbat candles are lit from an existing flame."
+        );
+      }
+      if (yomTovCandles instanceof TimedEvent) {
+        notes.push(
+          `Yom Tov begins as Shabbat ends: no separate havdalah. Light candles from an existing flame after ${formatTime(yomTovCandles)}, and havdalah is said in Kiddush.`
+        );
+      }
+
+      shabbatot.push({
+        date: toIsoDate(shabbat),
+        gregorianDate: shabbat.greg().toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        }),
+        hebrewDate: shabbat.toString(),
+        candleLighting: iso(candles),
+        havdalah: iso(havdalahEvent),
+        yomTovCandleLighting: iso(yomTovCandles),
+        parsha: parsha ? parsha.render(locale) : null,
+        specialShabbat: saturday
+          .filter((event) => event.getFlags() & flags.SPECIAL_SHABBAT)
+          .map((event) => event.render(locale)),
+        holidays: holidays.map((event) => event.render(locale)),
+        isYomTov: saturday.some((event) => event.getFlags() & flags.CHAG),
+        mevarchim:
+          mevarchim instanceof MevarchimChodeshEvent
+            ? {
+                name: mevarchim.render(locale),
+                month: mevarchim.monthName,
+                molad: mevarchim.memo ?? null,
+                // The coming week's Rosh Chodesh, one or two days
+                roshChodesh: events
+                  .filter(
+                    (event) =>
+                      has(event, "roshchodesh") &&
+                      event.getDate().abs() > shabbat.abs() &&
+                      event.getDate().abs() <= shabbat.abs() + 7
+                  )
+                  .map((event) => toIsoDate(event.getDate())),
+              }
+            : null,
+        notes,
+      });
+    }
+
+    return {
+      success: true,
+      range: { start: toIsoDate(first), end: toIsoDate(last) },
+      location: describeLocation(location),
+      il,
+      schedule: describeSchedule(il),
+      havdalah,
+      shabbatot,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting Shabbat times: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+export interface OmerOptions {
+  // For the default date: the user's own timezone, or the location's
+  timezone?: string;
+  now?: Date;
+}
+
+const OMER_BLESSING =
+  "בָּרוּךְ אַתָּה יְיָ אֱלֹהֵינוּ מֶלֶךְ הָעוֹלָם, אֲשֶׁר קִדְּשָׁנוּ בְּמִצְוֹתָיו וְצִוָּנוּ עַל סְפִירַת הָעֹמֶר";
+
+// The Omer count said on the evening of a civil date, after tzeit at the
+// location, and the one that was said the night before. The evening's count
+// belongs to the next Hebrew date, which begins at sunset
+export function getOmer(
+  date: string | undefined,
+  locationInput?: LocationInput,
+  options: OmerOptions = {}
+): OmerResult {
+  try {
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    let today: HDate;
+    if (date) {
+      const day = parseIsoDate(date);
+      if (!day) {
+        return {
+          success: false,
+          error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+        };
+      }
+      today = new HDate(day);
+    } else {
+      const now = options.now ?? new Date();
+      today = todayIn(options.timezone ?? location.getTzid(), now);
+      // Until dawn it is still the night that began the evening before
+      const dawn = new Zmanim(location, today.greg(), false).alotHaShachar();
+      if (!isNaN(dawn.getTime()) && now < dawn) {
+        today = today.prev();
+      }
+    }
+
+    const tzeit = new Zmanim(location, today.greg(), false).tzeit();
+    const tonight = describeOmerCount(today.next());
+    const counted = describeOmerCount(today);
+
+    let note: string;
+    if (tonight) {
+      note = `Count day ${tonight.day} tonight after tzeit, with the blessing. If the night passes without counting, count during the day tomorrow without the blessing, and go on counting with it the following nights.`;
+    } else if (counted) {
+      note = "The Omer is complete: Shavuot begins tonight.";
+    } else {
+      // The first count is on the evening of 15 Nisan
+      let start = new HDate(16, months.NISAN, today.getFullYear());
+      if (start.abs() <= today.abs()) {
+        start = new HDate(16, months.NISAN, today.getFullYear() + 1);
+      }
+      note = `The Omer is counted from the second night of Pesach until Shavuot. The next count begins on the evening of ${toIsoDate(start.prev())}.`;
+    }
+
+    return {
+      success: true,
+      date: toIsoDate(today),
+      gregorianDate: today.greg().toLocaleDateString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      }),
+      location: describeLocation(location),
+      tzeit: isNaN(tzeit.getTime())
+        ? null
+        : Zmanim.formatISOWithTimeZone(location.getTzid(), tzeit),
+      tonight,
+      today: counted,
+      blessing: tonight ? OMER_BLESSING : null,
+      note,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting the Omer count: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+// The count for a Hebrew date from 16 Nisan to 5 Sivan, null on other days
+function describeOmerCount(hd: HDate) {
+  const day = hd.abs() - new HDate(15, months.NISAN, hd.getFullYear()).abs();
+  if (day < 1 || day > 49) {
+    return null;
+  }
+  const omer = new OmerEvent(hd, day);
+  return {
+    day,
+    weeks: Math.floor(day / 7),
+    days: day % 7,
+    hebrewDate: hd.toString(),
+    sefirah: {
+      en: omer.sefira("en"),
+      he: omer.sefira("he"),
+      translit: omer.sefira("translit"),
+    },
+    text: { en: omer.getTodayIs("en"), he: omer.getTodayIs("he") },
+  };
+}
+
+export interface RoshChodeshOptions {
+  // A Hebrew month name, with or without a year ("Iyar", "Adar II 5784")
+  month?: string;
+  start?: string;
+  end?: string;
+  timezone?: string;
+  now?: Date;
+}
+
+// A year of months
+const MAX_ROSH_CHODESH_RANGE_DAYS = 385;
+
+// Jerusalem mean time, which the molad is given in, is 2:20:56 ahead of UTC
+const JERUSALEM_MEAN_TIME_OFFSET_MS = (2 * 3600 + 20 * 60 + 56) * 1000;
+
+// A chelek is 1/1080 of an hour, 3⅓ seconds
+const CHELEK_MS = (3600 * 1000) / 1080;
+
+// Half a lunar month, 14 days 18 hours 22 minutes and ½ chelek: the end of
+// Kiddush Levana according to the Shulchan Aruch
+const HALF_MONTH_MS = ((14 * 24 + 18) * 60 + 22) * 60 * 1000 + CHELEK_MS / 2;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const HEBREW_DAYS = ["ראשון", "שני", "שלישי", "רביעי", "חמישי", "שישי", "שבת"];
+const YIDDISH_DAYS = [
+  "זונטאג",
+  "מאנטאג",
+  "דינסטאג",
+  "מיטוואך",
+  "דאנערשטאג",
+  "פרייטאג",
+  "שבת",
+];
+
+// The molad, Rosh Chodesh, Shabbat Mevarchim and the Kiddush Levana window
+// for a Hebrew month, the next month with Rosh Chodesh from a date (default
+// today), or every month whose Rosh Chodesh begins in a range
+export function getRoshChodesh(
+  date: string | undefined,
+  locationInput?: LocationInput,
+  options: RoshChodeshOptions = {}
+): RoshChodeshResult {
+  try {
+    const resolved = resolveLocation(locationInput);
+    if (!resolved.success) {
+      return {
+        success: false,
+        error: resolved.error,
+        suggestions: resolved.suggestions || [],
+      };
+    }
+    const location = resolved.location;
+    const today = todayIn(options.timezone ?? location.getTzid(), options.now);
+
+    // The first of each month to describe
+    const firsts: HDate[] = [];
+    if (options.month) {
+      const parsed = parseHebrewMonth(options.month, today);
+      if (!parsed.success) {
+        return { success: false, error: parsed.error };
+      }
+      firsts.push(new HDate(1, parsed.month, parsed.year));
+    } else if (options.start || options.end) {
+      const range = parseDateRange(
+        options.start,
+        options.end,
+        MAX_ROSH_CHODESH_RANGE_DAYS
+      );
+      if (!range.success) {
+        return range;
+      }
+      const { first, last } = range;
+      for (
+        let month = nextRoshChodesh(first);
+        roshChodeshDays(month)[0].abs() <= last.abs();
+        month = nextRoshChodesh(month.add(1, "month"))
+      ) {
+        firsts.push(month);
+      }
+    } else {
+      let from = today;
+      if (date) {
+        const day = parseIsoDate(date);
+        if (!day) {
+          return {
+            success: false,
+            error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+          };
+        }
+        from = new HDate(day);
+      }
+      firsts.push(nextRoshChodesh(from));
+    }
+
+    const iso = (time: Date) =>
+      Zmanim.formatISOWithTimeZone(location.getTzid(), time);
+    const described = firsts.map((first) => {
+      const days = roshChodeshDays(first);
+      const molad = new Molad(first.getFullYear(), first.getMonth());
+      const moladTime = moladInstant(molad, first);
+      const mevarchim =
+        days.length > 0 ? days[0].prev().onOrBefore(6) : undefined;
+      const monthName = first.getMonthName();
+      return {
+        month: monthName,
+        hebrewMonth: Locale.gettext(monthName, "he-x-NoNikud"),
+        year: first.getFullYear(),
+        roshChodesh: days.map(describeDay),
+        molad: {
+          dayOfWeek: DAY_NAMES[molad.getDow()],
+          hour: molad.getHour(),
+          minutes: molad.getMinutes(),
+          chalakim: molad.getChalakim(),
+          time: iso(moladTime),
+          text: molad.render("en"),
+        },
+        shabbatMevarchim: mevarchim ? describeDay(mevarchim) : null,
+        announcement: {
+          he: {
+            molad: molad.render("he-x-NoNikud"),
+            roshChodesh: days.length ? announceRoshChodesh(days, "he") : null,
+          },
+          yi: {
+            molad: announceMoladInYiddish(molad),
+            roshChodesh: days.length ? announceRoshChodesh(days, "yi") : null,
+          },
+        },
+        kiddushLevana: {
+          fromThreeDays: iso(new Date(moladTime.getTime() + 3 * DAY_MS)),
+          fromSevenDays: iso(new Date(moladTime.getTime() + 7 * DAY_MS)),
+          untilHalfMonth: iso(new Date(moladTime.getTime() + HALF_MONTH_MS)),
+          untilFifteenDays: iso(new Date(moladTime.getTime() + 15 * DAY_MS)),
+        },
+      };
+    });
+
+    return {
+      success: true,
+      location: describeLocation(location),
+      months: described,
+      note: "The molad is announced in Jerusalem mean time (about 21 minutes ahead of Israel Standard Time); molad.time is the same moment in the location's timezone. Kiddush Levana is said at night: from 3 days after the molad (7 by some customs) until half the month has passed (14 days, 18 hours and 22 minutes; 15 days by the Rema's reckoning). Tishrei has no Rosh Chodesh or Shabbat Mevarchim, as its first day is Rosh Hashana.",
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting Rosh Chodesh: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+// The day or two of Rosh Chodesh for the month beginning on `first`: the
+// 30th of the month before when it has one, then the 1st. Tishrei has none
+function roshChodeshDays(first: HDate): HDate[] {
+  if (first.getMonth() === months.TISHREI) {
+    return [];
+  }
+  const previous = first.prev();
+  return previous.getDate() === 30 ? [previous, first] : [first];
+}
+
+function isRoshChodesh(hd: HDate): boolean {
+  const first =
+    hd.getDate() === 30
+      ? hd.next()
+      : new HDate(1, hd.getMonth(), hd.getFullYear());
+  return roshChodeshDays(first).some((day) => day.isSameDate(hd));
+}
+
+// The first of the next month whose Rosh Chodesh hasn't ended by `hd`
+function nextRoshChodesh(hd: HDate): HDate {
+  let first = new HDate(1, hd.getMonth(), hd.getFullYear());
+  while (first.abs() < hd.abs() || first.getMonth() === months.TISHREI) {
+    first = first.add(first.daysInMonth(), "d");
+  }
+  return first;
+}
+
+// The molad as a moment in time. Its weekday and Jerusalem mean time fall
+// within a few days of the 1st, which places it on the calendar
+function moladInstant(molad: Molad, first: HDate): Date {
+  let day = first.subtract(3, "d");
+  while (day.getDay() !== molad.getDow()) {
+    day = day.next();
+  }
+  const date = day.greg();
+  const jerusalemMeanTime = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    molad.getHour(),
+    molad.getMinutes(),
+    0,
+    Math.round((molad.getChalakim() * 10000) / 3)
+  );
+  return new Date(jerusalemMeanTime - JERUSALEM_MEAN_TIME_OFFSET_MS);
+}
+
+// "ראש חודש אייר יהיה ביום שני וביום שלישי הבא עלינו ועל כל ישראל לטובה"
+function announceRoshChodesh(days: HDate[], language: "he" | "yi"): string {
+  const month = Locale.gettext(
+    days[days.length - 1].getMonthName(),
+    "he-x-NoNikud"
+  );
+  if (language === "he") {
+    const when = days
+      .map((day) => `ביום ${HEBREW_DAYS[day.getDay()]}`)
+      .join(" ו");
+    return `ראש חודש ${month} יהיה ${when} הבא עלינו ועל כל ישראל לטובה`;
+  }
+  const when = days.map((day) => YIDDISH_DAYS[day.getDay()]).join(" און ");
+  return `ראש חודש ${month} וועט זיין ${when}`;
+}
+
+// "דער מולד איז מאנטאג אינדערפרי, 10 מינוט און 5 חלקים נאך 7 אזייגער"
+function announceMoladInYiddish(molad: Molad): string {
+  const hour = molad.getHour();
+  const partOfDay =
+    hour < 5 || hour >= 21
+      ? "ביינאכט"
+      : hour < 12
+        ? "אינדערפרי"
+        : hour < 18
+          ? "נאכמיטאג"
+          : "פארנאכט";
+  const clock = hour % 12 === 0 ? 12 : hour % 12;
+  return `דער מולד איז ${YIDDISH_DAYS[molad.getDow()]} ${partOfDay}, ${molad.getMinutes()} מינוט און ${molad.getChalakim()} חלקים נאך ${clock} אזייגער`;
+}
+
+export interface DailyLearningOptions {
+  start?: string;
+  end?: string;
+  // Only these schedules. Defaults to all of them
+  schedules?: LearningSchedule[];
+  // For the default date: the user's timezone
+  timezone?: string;
+  now?: Date;
+  language?: Language;
+}
+
+// A month of days
+const MAX_LEARNING_RANGE_DAYS = 31;
+
+// The Daf Yomi, Yerushalmi Yomi, Mishna Yomis, Nach Yomi, Rambam and Chofetz
+// Chaim for a date (default today) or each day of a range, with where each
+// day falls in its cycle
+export function getDailyLearning(
+  date: string | undefined,
+  options: DailyLearningOptions = {}
+): DailyLearningResult {
+  try {
+    let first: HDate;
+    let last: HDate;
+    if (options.start || options.end) {
+      const range = parseDateRange(
+        options.start,
+        options.end,
+        MAX_LEARNING_RANGE_DAYS
+      );
+      if (!range.success) {
+        return range;
+      }
+      first = range.first;
+      last = range.last;
+    } else if (date) {
+      const day = parseIsoDate(date);
+      if (!day) {
+        return {
+          success: false,
+          error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+        };
+      }
+      first = last = new HDate(day);
+    } else {
+      first = last = todayIn(
+        options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+        options.now
+      );
+    }
+
+    const locale = hebcalLocale(options.language);
+    const days = [];
+    for (let day = first; day.abs() <= last.abs(); day = day.next()) {
+      days.push({
+        date: toIsoDate(day),
+        gregorianDate: day.greg().toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        }),
+        hebrewDate: day.toString(),
+        learning: dailyLearning(day, locale, options.schedules),
+      });
+    }
+    return {
+      success: true,
+      range: { start: toIsoDate(first), end: toIsoDate(last) },
+      days,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Error getting the daily learning: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    };
+  }
+}
+
+// Half a year of Shabbatot
+const MAX_SHABBAT_RANGE_DAYS = 26 * 7;
+
+function resolveShabbatRange(
+  date: string | undefined,
+  options: ShabbatRangeOptions
+): DateRange {
+  if (options.start || options.end) {
+    return parseDateRange(options.start, options.end, MAX_SHABBAT_RANGE_DAYS);
+  }
+
+  let first: HDate;
+  if (date) {
+    const day = parseIsoDate(date);
+    if (!day) {
+      return {
+        success: false,
+        error: `Invalid date format: ${date}. Please use YYYY-MM-DD format.`,
+      };
+    }
+    first = new HDate(day);
+  } else {
+    first = todayIn(
+      options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      options.now
+    );
+  }
+  return { success: true, first, last: first.onOrAfter(6) };
+}
+
+type DateRange =
+  | { success: true; first: HDate; last: HDate }
+  | { success: false; error: string };
+
+// A start and end date from the caller, in order and at most maxDays apart
+function parseDateRange(
+  start: string | undefined,
+  end: string | undefined,
+  maxDays: number
+): DateRange {
+  const startDate = start ? parseIsoDate(start) : null;
+  const endDate = end ? parseIsoDate(end) : null;
+  if (!startDate || !endDate) {
+    return {
+      success: false,
+      error: `Both start and end are required as YYYY-MM-DD dates (got start: ${start}, end: ${end}).`,
+    };
+  }
+  const first = new HDate(startDate);
+  const last = new HDate(endDate);
+  if (last.abs() < first.abs()) {
+    return {
+      success: false,
+      error: "The end date is before the start date.",
+    };
+  }
+  if (last.abs() - first.abs() > maxDays) {
+    return {
+      success: false,
+      error: `Date ranges are limited to ${maxDays} days.`,
+    };
+  }
+  return { success: true, first, last };
+}
+
+// Parses "YYYY-MM-DD" as a calendar day, without a UTC shift
+function parseIsoDate(dateStr: string): Date | null {
+  const match = dateStr.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  // Years 0-99 map to 1900-1999 in the Date constructor
+  date.setFullYear(year);
+  return date;
+}
+
+// Longest explicit start/end window accepted, to keep tool output bounded
+const MAX_RANGE_DAYS = 3 * 366;
+
+export type CalendarType = "gregorian" | "hebrew";
+
+export interface HolidayQueryOptions {
+  calendar?: CalendarType;
+  start?: string;
+  end?: string;
+  il?: boolean;
+  // Holiday names are rendered in this language's hebcal locale
+  language?: Language;
+}
+
+export { HOLIDAY_CATEGORIES };
+
+export type HolidayCategory = (typeof HOLIDAY_CATEGORIES)[number];
+
+export interface ListHolidaysOptions extends HolidayQueryOptions {
+  categories?: HolidayCategory[];
+  // Without il, the Israel or Diaspora schedule of this location
+  location?: LocationInput;
+}
+
+export type ResolvedPeriod =
+  | {
+      success: true;
+      calendar: CalendarType;
+      calendarOptions: CalOptions;
+      range: { start: string; end: string };
+      description: string;
+    }
+  | { success: false; error: string };
+
+// Turns a year (in either calendar) or an explicit start/end window into
+// HebrewCalendar options plus the Gregorian span they cover
+export function resolvePeriod({
+  year,
+  calendar = "gregorian",
+  start,
+  end,
+}: HolidayQueryOptions & { year?: number }): ResolvedPeriod {
+  if (start || end) {
+    const range = parseDateRange(start, end, MAX_RANGE_DAYS);
+    if (!range.success) {
+      return range;
+    }
+    const { first: startHd, last: endHd } = range;
+    return {
+      success: true,
+      calendar,
+      calendarOptions: { start: startHd, end: endHd },
+      range: { start: toIsoDate(startHd), end: toIsoDate(endHd) },
+      description: `${toIsoDate(startHd)} to ${toIsoDate(endHd)}`,
+    };
+  }
+
+  if (year === undefined) {
+    return {
+      success: false,
+      error: "Provide either a year or a start and end date.",
+    };
+  }
+
+  if (calendar === "hebrew") {
+    if (year < 3761) {
+      return {
+        success: false,
+        error: `${year} is not a Hebrew year. Gregorian ${year} mostly falls in Hebrew year ${year + 3761}.`,
+      };
+    }
+    const firstDay = new HDate(1, months.TISHREI, year);
+    const lastDay = new HDate(1, months.TISHREI, year + 1).prev();
+    return {
+      success: true,
+      calendar,
+      calendarOptions: { year, isHebrewYear: true },
+      range: { start: toIsoDate(firstDay), end: toIsoDate(lastDay) },
+      description: `Hebrew year ${year}`,
+    };
+  }
+
+  if (year > 3000) {
+    return {
+      success: false,
+      error: `${year} looks like a Hebrew year. Set calendar to "hebrew" to search it.`,
+    };
+  }
+  return {
+    success: true,
+    calendar,
+    calendarOptions: { year, isHebrewYear: false },
+    range: { start: `${year}-01-01`, end: `${year}-12-31` },
+    description: `${year}`,
+  };
+}
+
+export function toIsoDate(hd: HDate): string {
+  const date = hd.greg();
+  return [
+    String(date.getFullYear()).padStart(4, "0"),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+// Per-request defaults the tools fall back to when the model leaves them out
+export interface ToolContext {
+  location?: LocationInput;
+  language?: Language;
+  // The user's IANA timezone, for the current date and time
+  timezone?: string;
+  // Where the server is reachable, for links the tools hand out
+  baseUrl?: string;
+}
+
+// The feed's location is passed on its own, for its times as well as il
+export interface CalendarFeedOptions extends Omit<
+  ListHolidaysOptions,
+  "location"
+> {
+  // Include candle lighting, havdalah and fast times (default true)
+  candles?: boolean;
+}
+
+// Checks the feed options and builds the /api/calendar.ics link for them,
+// with the same query parameters the REST routes take
+export function calendarFeedLink(
+  year: number | undefined,
+  locationInput: LocationInput | undefined,
+  options: CalendarFeedOptions = {},
+  baseUrl = ""
+): CalendarFeedLinkResult {
+  const hasPeriod = year !== undefined || !!options.start || !!options.end;
+  const period = hasPeriod ? resolvePeriod({ ...options, year }) : undefined;
+  if (period && !period.success) {
+    return { success: false, error: period.error };
+  }
+  const resolved = resolveLocation(locationInput);
+  if (!resolved.success) {
+    return {
+      success: false,
+      error: resolved.error,
+      suggestions: resolved.suggestions || [],
+    };
+  }
+
+  const params = new URLSearchParams();
+  const add = (name: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(name, String(value));
+    }
+  };
+  add("year", year);
+  add("calendar", options.calendar);
+  add("start", options.start);
+  add("end", options.end);
+  add("category", options.categories?.join(","));
+  add("il", options.il);
+  add("language", options.language);
+  add("candles", options.candles);
+  for (const [name, value] of Object.entries(locationInput ?? {})) {
+    add(name, value);
+  }
+
+  const query = params.toString();
+  const url = `${baseUrl}/api/calendar.ics${query ? `?${query}` : ""}`;
+  return {
+    success: true,
+    url,
+    // Opens the "subscribe" dialog in most calendar apps
+    subscribeUrl: /^https?:/.test(url)
+      ? url.replace(/^https?:/, "webcal:")
+      : null,
+    range: period?.success ? period.range : null,
+    note: hasPeriod
+      ? undefined
+      : "Without a year or dates, the feed covers the past month and the coming year, and stays current when subscribed to.",
+    location: describeLocation(resolved.location),
+  };
+}
+
+// Year or date-range selection shared by the holiday tools
+const periodSchema = z.object({
+  year: z
+    .number()
+    .optional()
+    .describe(
+      "The year to search, interpreted according to calendar (e.g., 2024 or 5785). Omit when giving start and end"
+    ),
+  calendar: z
+    .enum(["gregorian", "hebrew"])
+    .optional()
+    .describe(
+      "Whether year is a Gregorian year (default) or a Hebrew year. A Hebrew year runs from Rosh Hashana to Elul, so Chanukah and the Tishrei holidays are not split"
+    ),
+  start: z
+    .string()
+    .optional()
+    .describe("Start of an explicit date range in YYYY-MM-DD format"),
+  end: z
+    .string()
+    .optional()
+    .describe("End of an explicit date range in YYYY-MM-DD format (inclusive)"),
+});
+
+const categoriesSchema = z
+  .array(z.enum(HOLIDAY_CATEGORIES))
+  .optional()
+  .describe(
+    "Only include these categories: 'major' (Yom Tov, Chanukah, Purim...), 'minor' (Tu BiShvat, Lag BaOmer...), 'fast', 'roshchodesh', 'modern' (Yom HaAtzma'ut...), 'shabbat' (special Shabbatot like Shekalim, Zachor, HaGadol). Omit for everything"
+  );
+
+const ilSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "true for the Israel holiday and Torah reading schedule, false for the Diaspora schedule. Omit to follow the user's location"
+  );
+
+// Tool definitions for AI SDK. Every result is checked against its output
+// schema from schemas.ts before it reaches the model
+export function createAiTools(context: ToolContext = {}) {
+  return {
+    findJewishHoliday: {
+      description:
+        "Find a specific Jewish holiday by name and year, returns all the information about the holiday including candle lighting time and zmanim",
+      inputSchema: z.object({
+        ...periodSchema.shape,
+        holidayName: z
+          .string()
+          .describe(
+            "The name of the Jewish holiday to find, in any common spelling or in Hebrew (e.g., 'Rosh Hashanah', 'Yom Kippur', 'Passover', 'Sukkos', 'חנוכה')"
+          ),
+        location: locationSchema.optional(),
+        il: ilSchema,
+      }),
+      outputSchema: findJewishHolidayResultSchema,
+      execute: async ({
+        year,
+        holidayName,
+        location,
+        ...options
+      }: z.infer<typeof periodSchema> & {
+        holidayName: string;
+        location?: LocationInput;
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "findJewishHoliday",
+          findJewishHolidayResultSchema,
+          findJewishHoliday(year, holidayName, location ?? context.location, {
+            ...options,
+            language: context.language,
+          })
+        );
+      },
+    },
+    todaysDate: {
+      description:
+        "Get the current local date and time for the user, today's Hebrew date (which changes at sunset), sunset and tzeit times, and whether it is Shabbat or Yom Tov right now at their location",
+      inputSchema: z.object({
+        location: locationSchema
+          .optional()
+          .describe(
+            "Only when the user asks about another place. Defaults to the user's location and timezone"
+          ),
+      }),
+      outputSchema: todaysDateResultSchema,
+      execute: async ({ location }: { location?: LocationInput } = {}) => {
+        return checkToolOutput(
+          "todaysDate",
+          todaysDateResultSchema,
+          todaysDate(location ?? context.location, {
+            timezone: location ? undefined : context.timezone,
+            language: context.language,
+          })
+        );
+      },
+    },
+    resolveDate: {
+      description:
+        "Resolve a relative or descriptive date to a concrete Gregorian and Hebrew date, counting from today in the user's timezone: 'today', 'next Shabbos', 'in 3 weeks', 'two weeks before Pesach', 'the Sunday after Sukkos', 'last Chanukah', 'Shavuos 5786', '13 years after 5 Iyar 5772'. Use it instead of working out dates yourself. Also returns today's date and the parsha of that week",
+      inputSchema: z.object({
+        phrase: z
+          .string()
+          .describe(
+            "The date as the user said it, in English (e.g., 'next Shabbos', 'the day after Yom Kippur'). Holidays without a year mean the next occurrence, or the most recent one with 'last'"
+          ),
+        location: locationSchema.optional(),
+        il: ilSchema,
+      }),
+      outputSchema: resolveDateResultSchema,
+      execute: async ({
+        phrase,
+        location,
+        il,
+      }: {
+        phrase: string;
+        location?: LocationInput;
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "resolveDate",
+          resolveDateResultSchema,
+          resolveDate(phrase, location ?? context.location, {
+            // The user's clock, unless they asked about another place
+            timezone: location ? undefined : context.timezone,
+            il,
+            language: context.language,
+          })
+        );
+      },
+    },
+    listJewishHolidays: {
+      description:
+        "List all Jewish holidays for a given Gregorian or Hebrew year, or between a start and end date",
+      inputSchema: periodSchema.extend({
+        categories: categoriesSchema,
+        il: ilSchema,
+      }),
+      outputSchema: listJewishHolidaysResultSchema,
+      execute: async ({
+        year,
+        il,
+        ...options
+      }: z.infer<typeof periodSchema> & {
+        categories?: HolidayCategory[];
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "listJewishHolidays",
+          listJewishHolidaysResultSchema,
+          listJewishHolidays(year, {
+            ...options,
+            il,
+            location: context.location,
+            language: context.language,
+          })
+        );
+      },
+    },
+    getZmanim: {
+      description:
+        "Get the daily halachic times (zmanim) for a date and location: alot hashachar, misheyakir, sunrise, sof zman shema and tefilla (GRA and MGA), chatzot, mincha gedola and ketana, plag hamincha, sunset (shkiah) and tzeit",
+      inputSchema: z.object({
+        date: z
+          .string()
+          .describe(
+            "The Gregorian date in YYYY-MM-DD format (e.g., '2024-10-03')"
+          ),
+        location: locationSchema.optional(),
+      }),
+      outputSchema: zmanimResultSchema,
+      execute: async ({
+        date,
+        location,
+      }: {
+        date: string;
+        location?: LocationInput;
+      }) => {
+        return checkToolOutput(
+          "getZmanim",
+          zmanimResultSchema,
+          getZmanim(date, location ?? context.location)
+        );
+      },
+    },
+    convertDate: {
+      description:
+        "Convert dates between Gregorian and Hebrew calendars. Supports both directions with comprehensive date information including parsha, seasons, and Jewish calendar details.",
+      inputSchema: z.object({
+        inputDate: z
+          .string()
+          .describe(
+            "The date to convert. For Gregorian: use YYYY-MM-DD format (e.g., '2024-10-03'). For Hebrew: day, month and year in English or Hebrew, e.g. '15 Tishrei 5785', '14 Adar II 5784', 'Rosh Chodesh Elul 5785', 'ט״ו בשבט תשפ״ה' or '15/7/5785' (months numbered from Nisan, so Tishrei is 7). If the date is rejected, the error says why"
+          ),
+        fromCalendar: z
+          .enum(["gregorian", "hebrew"])
+          .describe(
+            "The source calendar system - 'gregorian' to convert from Gregorian to Hebrew, 'hebrew' to convert from Hebrew to Gregorian"
+          ),
+        il: ilSchema,
+      }),
+      outputSchema: convertDateResultSchema,
+      execute: async ({
+        inputDate,
+        fromCalendar,
+        il,
+      }: {
+        inputDate: string;
+        fromCalendar: "gregorian" | "hebrew";
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "convertDate",
+          convertDateResultSchema,
+          convertDate(
+            inputDate,
+            fromCalendar,
+            resolveIsrael(il, context.location),
+            context.language
+          )
+        );
+      },
+    },
+    getParsha: {
+      description:
+        "Get what is read in shul on Shabbat: the parsha (or the holiday reading that replaces it), the seven aliyot and maftir with verses, the haftarah for Ashkenazim and Sephardim, special maftirs and the special Shabbat names (Shekalim, Zachor, Parah, HaChodesh, HaGadol, Shuva). Israel and the Diaspora sometimes read different parshiyot. Use this instead of answering from memory",
+      inputSchema: z.object({
+        date: z
+          .string()
+          .optional()
+          .describe(
+            "A Gregorian date in YYYY-MM-DD format; returns the Shabbat on or after it. Omit for this week's Shabbat"
+          ),
+        start: z
+          .string()
+          .optional()
+          .describe(
+            "Start of a range in YYYY-MM-DD format, for every Shabbat in it (up to 26 weeks)"
+          ),
+        end: z
+          .string()
+          .optional()
+          .describe("End of the range in YYYY-MM-DD format (inclusive)"),
+        il: ilSchema,
+      }),
+      outputSchema: parshaResultSchema,
+      execute: async ({
+        date,
+        il,
+        ...range
+      }: {
+        date?: string;
+        start?: string;
+        end?: string;
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "getParsha",
+          parshaResultSchema,
+          getParsha(date, {
+            ...range,
+            il,
+            location: context.location,
+            timezone: context.timezone,
+            language: context.language,
+          })
+        );
+      },
+    },
+    getShabbatTimes: {
+      description:
+        "Get everything about the coming Shabbat, or every Shabbat in a date range, at a location: candle lighting and havdalah times, the parsha, special Shabbat names, Shabbat Mevarchim with the molad and Rosh Chodesh dates, and whether Yom Tov falls on Shabbat or begins when it ends. Use this for Shabbat times rather than findJewishHoliday",
+      inputSchema: z.object({
+        date: z
+          .string()
+          .optional()
+          .describe(
+            "A Gregorian date in YYYY-MM-DD format; returns the Shabbat on or after it. Omit for this week's Shabbat"
+          ),
+        start: z
+          .string()
+          .optional()
+          .describe(
+            "Start of a range in YYYY-MM-DD format, for every Shabbat in it (up to 26 weeks)"
+          ),
+        end: z
+          .string()
+          .optional()
+          .describe("End of the range in YYYY-MM-DD format (inclusive)"),
+        location: locationSchema.optional(),
+        havdalahMins: z
+          .number()
+          .int()
+          .min(0)
+          .max(120)
+          .optional()
+          .describe(
+            `Havdalah this many minutes after sunset (default ${HAVDALAH_MINS}; 72 for Rabbeinu Tam)`
+          ),
+        havdalahDegrees: z
+          .number()
+          .min(0)
+          .max(20)
+          .optional()
+          .describe(
+            "Havdalah when the sun is this many degrees below the horizon (e.g. 8.5), instead of havdalahMins"
+          ),
+        il: ilSchema,
+      }),
+      outputSchema: shabbatTimesResultSchema,
+      execute: async ({
+        date,
+        location,
+        ...options
+      }: {
+        date?: string;
+        start?: string;
+        end?: string;
+        location?: LocationInput;
+        havdalahMins?: number;
+        havdalahDegrees?: number;
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "getShabbatTimes",
+          shabbatTimesResultSchema,
+          getShabbatTimes(date, location ?? context.location, {
+            ...options,
+            // "This Shabbat" by the user's clock, unless they asked about
+            // another place
+            timezone: location ? undefined : context.timezone,
+            language: context.language,
+          })
+        );
+      },
+    },
+    getOmer: {
+      description:
+        "Get the Omer count for tonight: the day, weeks and days, the sefirah, the Hebrew text of the count with its blessing, and tzeit when it may be said. Also returns last night's count. Use this rather than counting from Pesach yourself",
+      inputSchema: z.object({
+        date: z
+          .string()
+          .optional()
+          .describe(
+            "A Gregorian date in YYYY-MM-DD format; returns the count said on its evening. Omit for tonight"
+          ),
+        location: locationSchema.optional(),
+      }),
+      outputSchema: omerResultSchema,
+      execute: async ({
+        date,
+        location,
+      }: {
+        date?: string;
+        location?: LocationInput;
+      }) => {
+        return checkToolOutput(
+          "getOmer",
+          omerResultSchema,
+          getOmer(date, location ?? context.location, {
+            timezone: location ? undefined : context.timezone,
+          })
+        );
+      },
+    },
+    getRoshChodesh: {
+      description:
+        "Get the molad (day, hour, minutes and chalakim), the day or days of Rosh Chodesh, the Shabbat Mevarchim date with the announcement in Hebrew and Yiddish, and the Kiddush Levana window for a Hebrew month. Omit everything for the next Rosh Chodesh",
+      inputSchema: z.object({
+        month: z
+          .string()
+          .optional()
+          .describe(
+            "A Hebrew month, optionally with a Hebrew year (e.g. 'Iyar', 'Adar II 5784', 'אלול'). Without a year, the next time it begins"
+          ),
+        date: z
+          .string()
+          .optional()
+          .describe(
+            "A Gregorian date in YYYY-MM-DD format; returns the first Rosh Chodesh on or after it"
+          ),
+        start: z
+          .string()
+          .optional()
+          .describe(
+            "Start of a range in YYYY-MM-DD format, for every Rosh Chodesh in it (up to a year)"
+          ),
+        end: z
+          .string()
+          .optional()
+          .describe("End of the range in YYYY-MM-DD format (inclusive)"),
+        location: locationSchema.optional(),
+      }),
+      outputSchema: roshChodeshResultSchema,
+      execute: async ({
+        date,
+        location,
+        ...options
+      }: {
+        month?: string;
+        date?: string;
+        start?: string;
+        end?: string;
+        location?: LocationInput;
+      }) => {
+        return checkToolOutput(
+          "getRoshChodesh",
+          roshChodeshResultSchema,
+          getRoshChodesh(date, location ?? context.location, {
+            ...options,
+            timezone: location ? undefined : context.timezone,
+          })
+        );
+      },
+    },
+    getDailyLearning: {
+      description:
+        'Get the daily learning for a date or a range of up to 31 days: Daf Yomi, Yerushalmi Yomi, Mishna Yomis, Nach Yomi, Rambam (1 and 3 chapters) and Chofetz Chaim, each with its cycle number and day in the cycle. Use this for "what daf is today?"',
+      inputSchema: z.object({
+        date: z
+          .string()
+          .optional()
+          .describe("A Gregorian date in YYYY-MM-DD format. Omit for today"),
+        start: z
+          .string()
+          .optional()
+          .describe("Start of a range in YYYY-MM-DD format"),
+        end: z
+          .string()
+          .optional()
+          .describe("End of the range in YYYY-MM-DD format (inclusive)"),
+        schedules: z
+          .array(z.enum(LEARNING_SCHEDULES))
+          .optional()
+          .describe(
+            "Only these schedules, e.g. ['dafYomi'] when the user only asks about the daf. Omit for all of them"
+          ),
+      }),
+      outputSchema: dailyLearningResultSchema,
+      execute: async ({
+        date,
+        ...options
+      }: {
+        date?: string;
+        start?: string;
+        end?: string;
+        schedules?: LearningSchedule[];
+      }) => {
+        return checkToolOutput(
+          "getDailyLearning",
+          dailyLearningResultSchema,
+          getDailyLearning(date, {
+            ...options,
+            timezone: context.timezone,
+            language: context.language,
+          })
+        );
+      },
+    },
+    getHebrewAnniversaries: {
+      description:
+        "Calculate a yahrzeit or Hebrew birthday from the original Gregorian date: the upcoming anniversaries, and for a birth date the bar mitzvah (13) and bat mitzvah (12) dates with their parsha. Handles Adar in leap years, 30 Cheshvan and 30 Kislev. Use this rather than convertDate for anniversaries",
+      inputSchema: z.object({
+        date: z
+          .string()
+          .describe(
+            "The Gregorian date of the death or birth in YYYY-MM-DD format"
+          ),
+        type: z
+          .enum(["yahrzeit", "birthday"])
+          .describe(
+            "'yahrzeit' for the anniversary of a death, 'birthday' for a Hebrew birthday (with bar/bat mitzvah)"
+          ),
+        afterSunset: z
+          .boolean()
+          .optional()
+          .describe(
+            "true if it happened after sunset, which makes it the next Hebrew date. Ask the user when it matters"
+          ),
+        years: z
+          .number()
+          .int()
+          .min(1)
+          .max(30)
+          .optional()
+          .describe("How many upcoming anniversaries to list (default 5)"),
+        il: ilSchema,
+      }),
+      outputSchema: hebrewAnniversariesResultSchema,
+      execute: async ({
+        date,
+        type,
+        il,
+        ...options
+      }: {
+        date: string;
+        type: AnniversaryType;
+        afterSunset?: boolean;
+        years?: number;
+        il?: boolean;
+      }) => {
+        return checkToolOutput(
+          "getHebrewAnniversaries",
+          hebrewAnniversariesResultSchema,
+          getHebrewAnniversaries(date, type, {
+            ...options,
+            il,
+            location: context.location,
+            timezone: context.timezone,
+            language: context.language,
+          })
+        );
+      },
+    },
+    calendarFeedLink: {
+      description:
+        "Get a link to an iCalendar (.ics) feed of Jewish holidays and candle lighting times, for when the user wants to add them to their calendar app (Google Calendar, Apple Calendar, Outlook). Omit year, start and end for a subscription that keeps itself up to date",
+      inputSchema: periodSchema.extend({
+        categories: categoriesSchema,
+        il: ilSchema,
+        location: locationSchema.optional(),
+        candles: z
+          .boolean()
+          .optional()
+          .describe(
+            "Include candle lighting, havdalah and fast start/end times (default true)"
+          ),
+      }),
+      outputSchema: calendarFeedLinkResultSchema,
+      execute: async ({
+        year,
+        location,
+        il,
+        ...options
+      }: z.infer<typeof periodSchema> & {
+        categories?: HolidayCategory[];
+        il?: boolean;
+        location?: LocationInput;
+        candles?: boolean;
+      }) => {
+        return checkToolOutput(
+          "calendarFeedLink",
+          calendarFeedLinkResultSchema,
+          calendarFeedLink(
+            year,
+            location ?? context.location,
+            { ...options, il, language: context.language },
+            context.baseUrl
+          )
+        );
+      },
+    },
+  };
+}
+
+export const aiTools = createAiTools();